@@ -1,6 +1,7 @@
 import { PlaywrightTestConfig } from '@playwright/test';
 
 const config: PlaywrightTestConfig = {
+  testDir: './tests',
   timeout: 60000,
   retries: 0,
   use: {
@@ -11,4 +12,4 @@ const config: PlaywrightTestConfig = {
   },
 };
 
-export default config;
\ No newline at end of file
+export default config;
@@ -0,0 +1,295 @@
+import { CheckerOptions } from './index';
+import { isSourcePath } from './sourceFiles';
+import { settingValueProblems } from './config';
+
+export interface CliArgs extends CheckerOptions {
+  addToDictionary?: string;
+  // Reports to compare with the compare command: the earlier run (or a baseline), then the later one
+  compare?: string[];
+  printConfig?: boolean;
+  help?: boolean;
+}
+
+// Flags for the settings that take one of a fixed set of values
+const VALUE_FLAGS: Partial<Record<keyof CliArgs, string>> = {
+  minSeverity: '--min-severity',
+  categories: '--categories',
+  extractionStrategy: '--extraction',
+  textSources: '--text-sources',
+  waitUntil: '--wait-until',
+  outputFormat: '--output-format',
+  failOn: '--fail-on'
+};
+
+/**
+ * Parse command line arguments. Only flags that were actually given are set,
+ * so they can be layered over config file settings. Throws on a missing or
+ * invalid flag value.
+ */
+export function parseArgs(args: string[]): CliArgs {
+  const options: CliArgs = {};
+  
+  // "compare <before> <after>" takes two report paths instead of a URL
+  if (args[0] === 'compare') {
+    options.compare = [];
+    args = args.slice(1);
+  }
+  
+  // Process arguments; the first positional argument is the URL, unless they name local files
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // The flag's value, which must be there: "--output-format" alone is a usage error
+    const value = (): string => {
+      if (i + 1 >= args.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return args[++i];
+    };
+    
+    if (arg === '--language' || arg === '-l') {
+      options.language = value();
+    } else if (arg === '--no-detect-language') {
+      options.detectLanguage = false;
+    } else if (arg === '--mother-tongue') {
+      options.motherTongue = value();
+    } else if (arg === '--disable-rules') {
+      options.disabledRules = [...(options.disabledRules || []), ...value().split(',').map(id => id.trim())];
+    } else if (arg === '--min-severity') {
+      options.minSeverity = value() as any;
+    } else if (arg === '--categories') {
+      options.categories = value().split(',').map(category => category.trim()).filter(Boolean) as any;
+    } else if (arg === '--languagetool-url') {
+      options.languageToolUrl = value();
+    } else if (arg === '--rules-dir') {
+      options.rulesDir = value();
+    } else if (arg === '--rules-file') {
+      options.rulesFile = value();
+    } else if (arg === '--extraction') {
+      options.extractionStrategy = value() as any;
+    } else if (arg === '--include-selector') {
+      options.includeSelectors = [...(options.includeSelectors || []), value()];
+    } else if (arg === '--exclude-selector') {
+      options.excludeSelectors = [...(options.excludeSelectors || []), value()];
+    } else if (arg === '--text-sources') {
+      options.textSources = value().split(',').map(kind => kind.trim()).filter(Boolean) as any;
+    } else if (arg === '--no-text-sources') {
+      options.textSources = [];
+    } else if (arg === '--skip-hidden') {
+      options.skipHidden = true;
+    } else if (arg === '--wait-until') {
+      options.waitUntil = value() as any;
+    } else if (arg === '--wait-for') {
+      options.waitForSelector = value();
+    } else if (arg === '--wait-for-function') {
+      options.waitForFunction = value();
+    } else if (arg === '--wait') {
+      options.waitForTimeout = parseInt(value(), 10);
+    } else if (arg === '--expand-details') {
+      options.expandDetails = true;
+    } else if (arg === '--interaction-script') {
+      options.interactionScript = value();
+    } else if (arg === '--storage-state') {
+      options.storageState = value();
+    } else if (arg === '--header') {
+      options.httpHeaders = [...(options.httpHeaders || []), value()];
+    } else if (arg === '--basic-auth') {
+      options.basicAuth = value();
+    } else if (arg === '--login-script') {
+      options.loginScript = value();
+    } else if (arg === '--output-format' || arg === '-f') {
+      options.outputFormat = value() as any;
+    } else if (arg === '--output-path' || arg === '-o') {
+      options.outputPath = value();
+    } else if (arg === '--fail-on') {
+      options.failOn = value() as any;
+    } else if (arg === '--max-issues') {
+      options.maxIssues = parseInt(value(), 10);
+    } else if (arg === '--include-raw-text' || arg === '-r') {
+      options.includeRawText = true;
+    } else if (arg === '--no-headless') {
+      options.headless = false;
+    } else if (arg === '--no-incomplete') {
+      options.detectIncomplete = false;
+    } else if (arg === '--ignore-pattern') {
+      options.ignorePatterns = [...(options.ignorePatterns || []), value()];
+    } else if (arg === '--incomplete-pattern') {
+      options.incompletePatterns = [...(options.incompletePatterns || []), value()];
+    } else if (arg === '--no-spelling') {
+      options.checkSpelling = false;
+    } else if (arg === '--no-style') {
+      options.checkStyle = false;
+    } else if (arg === '--max-sentence-words') {
+      options.maxSentenceWords = parseInt(value(), 10);
+    } else if (arg === '--dictionary-dir') {
+      options.dictionaryDir = value();
+    } else if (arg === '--dictionary') {
+      options.customDictionary = value();
+    } else if (arg === '--brands') {
+      options.brandList = value();
+    } else if (arg === '--terms') {
+      options.termsFile = value();
+    } else if (arg === '--add-to-dictionary') {
+      options.addToDictionary = value();
+    } else if (arg === '--crawl') {
+      options.crawl = true;
+    } else if (arg === '--max-depth') {
+      options.maxDepth = parseInt(value(), 10);
+    } else if (arg === '--max-pages') {
+      options.maxPages = parseInt(value(), 10);
+    } else if (arg === '--concurrency') {
+      options.concurrency = parseInt(value(), 10);
+    } else if (arg === '--include') {
+      options.includePatterns = [...(options.includePatterns || []), value()];
+    } else if (arg === '--exclude') {
+      options.excludePatterns = [...(options.excludePatterns || []), value()];
+    } else if (arg === '--sitemap') {
+      options.sitemap = value();
+    } else if (arg === '--url-list') {
+      options.urlList = value();
+    } else if (arg === '--since') {
+      options.since = value();
+    } else if (arg === '--baseline') {
+      options.baseline = value();
+    } else if (arg === '--update-baseline') {
+      options.updateBaseline = true;
+    } else if (arg === '--screenshots') {
+      options.screenshots = true;
+    } else if (arg === '--screenshot-dir') {
+      options.screenshots = true;
+      options.screenshotDir = value();
+    } else if (arg === '--config' || arg === '-c') {
+      options.configPath = value();
+    } else if (arg === '--fix') {
+      options.fix = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--print-config') {
+      options.printConfig = true;
+    } else if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (!arg.startsWith('-') && options.compare) {
+      options.compare.push(arg);
+    } else if (!arg.startsWith('-') && isSourcePath(arg)) {
+      options.files = [...(options.files || []), arg];
+    } else if (!arg.startsWith('-') && !options.url) {
+      options.url = arg;
+    }
+  }
+  
+  // Settings with a fixed set of values are checked like the config file's
+  const problems = settingValueProblems(options, VALUE_FLAGS);
+  if (problems.length > 0) {
+    throw new Error(`Invalid arguments:\n  ${problems.join('\n  ')}`);
+  }
+  
+  return options;
+}
+
+export function showHelp(): void {
+  console.log(`
+  Website Grammar Checker
+  
+  Usage:
+    npx ts-node src/cli.ts <url> [options]
+    npx ts-node src/cli.ts --sitemap <url|path> [options]
+    npx ts-node src/cli.ts --url-list <path> [options]
+    npx ts-node src/cli.ts <file|dir|glob>... [options]
+    npx ts-node src/cli.ts --add-to-dictionary <report.json> [--dictionary <file>]
+    npx ts-node src/cli.ts compare <before.json|baseline.json> <after.json> [options]
+    npx ts-node src/cli.ts [url] --print-config
+  
+  Options:
+    --config, -c <path>      Config file (default: .grammarrc.json, .grammarrc or grammar.config.js,
+                             searched from the working directory upwards)
+    --print-config           Print the effective settings (for the URL, if given) and exit
+    --language, -l           Language code (default: en-US)
+    --no-detect-language     Trust lang attributes only instead of detecting each paragraph's language
+    --mother-tongue <code>   Native language of the author, used by LanguageTool for false-friend checks
+    --disable-rules <ids>    Comma-separated rule IDs to skip (repeatable)
+    --min-severity <level>   Only report findings at least this severe: error, warning, info (default)
+    --categories <list>      Only report these categories, comma-separated: spelling, grammar,
+                             punctuation, style, consistency (default: all)
+    --languagetool-url <url> Also check text with a LanguageTool server, e.g. http://localhost:8081
+    --rules-dir <dir>        Load additional rule modules (.js/.ts) from a directory
+    --rules-file <path>      Load regex/token-pattern rules from a YAML or JSON file
+    --extraction <strategy>  Text to check: readability (article body), selectors (paragraphs,
+                             headings, lists; default) or full (all visible text)
+    --include-selector <css> Only check text inside elements matching this selector (repeatable)
+    --exclude-selector <css> Never check text inside elements matching this selector (repeatable)
+    --text-sources <kinds>   Text outside the body to check, comma-separated (default: all of title,
+                             meta-description, og-title, og-description, alt, title-attribute,
+                             aria-label, placeholder, button)
+    --no-text-sources        Only check the page body
+    --skip-hidden            Leave out text the page does not show (default: check it, flagged as hidden)
+    --wait-until <event>     Navigation event to wait for: load, domcontentloaded, networkidle (default), commit
+    --wait-for <selector>    Wait until an element matching the selector exists before checking
+    --wait-for-function <js> Wait until a JavaScript expression is truthy in the page
+    --wait <ms>              Wait a fixed time after the page is ready
+    --expand-details         Open every <details> element before checking
+    --interaction-script <path>
+                             Module exporting async (page) => {...} to run before checking,
+                             e.g. to click through tabs or open modals
+    --storage-state <file>   Playwright storageState file with the cookies of a logged-in session
+    --header "Name: value"   Extra HTTP header (repeatable); use \${VAR} for secrets
+    --basic-auth '\${USER}:\${PASS}'
+                             HTTP basic auth credentials, read from environment variables
+    --login-script <path>    Module exporting async (page, { env }) => {...} that logs in once per run
+    --output-format, -f      Output format: console, json, html, markdown, sarif, junit (default: console)
+    --output-path, -o        Path to save the report (required for non-console outputs)
+    --fail-on <severity>     Exit with code 1 if any finding is at least this severe: error, warning, info
+    --max-issues <n>         Exit with code 1 if there are more than n findings
+    --include-raw-text, -r   Include raw extracted text in the report
+    --no-headless            Run browser in non-headless mode
+    --no-incomplete          Disable detection of incomplete sentences
+    --ignore-pattern <regex> Never check text or sentences matching this regex, e.g. a UI label (repeatable)
+    --incomplete-pattern <regex>
+                             Also report sentences matching this regex as incomplete (repeatable)
+    --no-spelling            Disable spell checking
+    --no-style               Disable style checks and readability scores
+    --max-sentence-words <n> Report sentences longer than this (default: 30)
+    --dictionary-dir <dir>   Directory with <language>.aff/.dic Hunspell dictionaries
+    --dictionary <file>      Project word list (default: .grammar-dictionary.txt if present)
+    --brands <file>          Case-sensitive brand terms (default: .grammar-brands.txt if present)
+    --terms <file>           Banned terms and spelling variants (default: .grammar-terms.yml if present)
+    --add-to-dictionary <report.json>
+                             Add the words flagged in a JSON report to the project dictionary
+    --crawl                  Follow same-origin links from the URL and check every page
+    --max-depth <n>          Maximum link depth to follow when crawling (default: 2)
+    --max-pages <n>          Maximum number of pages to check when crawling (default: 50)
+    --concurrency <n>        Number of pages to check in parallel when crawling (default: 3)
+    --include <pattern>      Only crawl URLs matching this glob or re:<regex> (repeatable)
+    --exclude <pattern>      Never crawl URLs matching this glob or re:<regex> (repeatable)
+    --sitemap <url|path>     Check every page in a sitemap.xml, sitemap index or .xml.gz
+    --url-list <path>        Check every URL listed in a text or CSV file
+    --since <date>           With --sitemap, only check pages whose lastmod is on or after this date
+    --screenshots            Capture a screenshot of each finding with the issue outlined
+    --screenshot-dir <dir>   Where to save screenshots (default: screenshots/ next to the report)
+    --baseline <file>        Suppress findings recorded in a baseline file
+    --update-baseline        Record every current finding in the baseline file
+                             (default: .grammar-baseline.json) instead of suppressing
+    --help, -h               Show this help message
+  
+  Files:
+    <file|dir|glob>...       Check local .md, .mdx, .markdown, .html, .htm or .txt files without a
+                             browser, e.g. "docs/**/*.md". Code, front matter and markup are
+                             skipped; findings give the file, line and column.
+    --fix                    Apply safe fixes, e.g. repeated words, brand casing and missing periods,
+                             to the files; fixes that overlap or can't be placed exactly are listed
+    --dry-run                Print the fixes as a unified diff instead of writing them
+  
+  Compare:
+    compare <before> <after> Report new, resolved and unchanged findings between two JSON reports,
+                             or a baseline file and a JSON report. Accepts --output-format and
+                             --output-path; --fail-on and --max-issues only count new findings.
+  
+  Examples:
+    npx ts-node src/cli.ts https://example.com
+    npx ts-node src/cli.ts https://example.com -f html -o ./reports/report.html
+    npx ts-node src/cli.ts https://example.com -l de-DE --no-headless
+    npx ts-node src/cli.ts https://example.com --crawl --max-pages 200 --exclude "/blog/*"
+    npx ts-node src/cli.ts README.md "docs/**/*.{md,mdx}" --fail-on error
+    npx ts-node src/cli.ts --sitemap https://example.com/sitemap.xml --since 2024-01-01
+    npx ts-node src/cli.ts https://example.com/de/impressum --print-config
+    npx ts-node src/cli.ts --sitemap https://example.com/sitemap.xml --fail-on error -f sarif -o grammar.sarif
+  `);
+}
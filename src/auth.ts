@@ -0,0 +1,189 @@
+import { BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Settings for checking pages behind a login. Secret values are never written
+ * here directly; they are referenced as ${ENV_VAR} and expanded at run time.
+ */
+export interface AuthSettings {
+  // Playwright storageState file with cookies and local storage
+  storageState?: string;
+  // Extra request headers as "Name: value"
+  httpHeaders?: string[];
+  // HTTP basic auth as "${USER_VAR}:${PASSWORD_VAR}"
+  basicAuth?: string;
+  // Module exporting async (page, { env }) => {...} that logs in once per run
+  loginScript?: string;
+}
+
+export interface ResolvedAuth {
+  contextOptions: BrowserContextOptions;
+  // Expanded values that must not show up in reports
+  secrets: string[];
+}
+
+// A login script may resolve with further values to keep out of reports, e.g. a one-time code
+export type LoginScript = (page: Page, context: { env: NodeJS.ProcessEnv }) => Promise<string[] | void> | string[] | void;
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const MIN_COOKIE_SECRET_LENGTH = 8;
+
+// Headers whose values are credentials, so literal values are refused
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie)$|token|secret|key|auth|session/i;
+
+// Environment variables whose values are credentials when a login script reads them
+const CREDENTIAL_VARIABLE = /passw(or)?d|passphrase|secret|token|key|auth|session|cookie|credential/i;
+
+/**
+ * Build the browser context options for a run and collect the secrets they contain
+ */
+export function resolveAuth(settings: AuthSettings, env: NodeJS.ProcessEnv = process.env): ResolvedAuth {
+  const contextOptions: BrowserContextOptions = {};
+  const secrets: string[] = [];
+
+  if (settings.storageState) {
+    if (!fs.existsSync(settings.storageState)) {
+      throw new Error(`Storage state file not found: ${settings.storageState}`);
+    }
+    contextOptions.storageState = settings.storageState;
+  }
+
+  if (settings.httpHeaders && settings.httpHeaders.length > 0) {
+    const headers: Record<string, string> = {};
+    for (const header of settings.httpHeaders) {
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        throw new Error(`Invalid header "${header}"; expected "Name: value"`);
+      }
+
+      const name = header.slice(0, separator).trim();
+      const template = header.slice(separator + 1).trim();
+      if (SENSITIVE_HEADER.test(name)) {
+        requireEnvReference(template, `Header "${name}"`);
+      }
+
+      const { value, expanded } = expandEnv(template, env);
+      headers[name] = value;
+      secrets.push(...expanded);
+    }
+    contextOptions.extraHTTPHeaders = headers;
+  }
+
+  if (settings.basicAuth) {
+    const separator = settings.basicAuth.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('basicAuth must be "${USER_VAR}:${PASSWORD_VAR}"');
+    }
+    const password = settings.basicAuth.slice(separator + 1);
+    requireEnvReference(password, 'The basic auth password');
+
+    const username = expandEnv(settings.basicAuth.slice(0, separator), env);
+    const expandedPassword = expandEnv(password, env);
+    contextOptions.httpCredentials = { username: username.value, password: expandedPassword.value };
+    secrets.push(...username.expanded, ...expandedPassword.expanded);
+  }
+
+  return { contextOptions, secrets: secrets.filter(secret => secret.length > 0) };
+}
+
+/**
+ * Run the login script in its own tab. The cookies it leaves behind are
+ * shared by every page checked in the same context. Resolves with the
+ * secrets to redact: the values of credential variables the script read
+ * (HELP_PASSWORD, API_TOKEN, ...) and any values the script resolves with.
+ */
+export async function runLoginScript(context: BrowserContext, scriptPath: string, env: NodeJS.ProcessEnv = process.env): Promise<string[]> {
+  const login = loadLoginScript(scriptPath);
+  const page = await context.newPage();
+
+  // Other variables the script reads, such as BASE_URL or CI, are ordinary text
+  const read = new Set<string>();
+  const trackedEnv = new Proxy(env, {
+    get(target, name) {
+      const value = Reflect.get(target, name);
+      if (typeof name === 'string' && CREDENTIAL_VARIABLE.test(name) && typeof value === 'string' && value.length > 0) {
+        read.add(value);
+      }
+      return value;
+    }
+  });
+
+  try {
+    const returned = await login(page, { env: trackedEnv });
+    for (const value of returned || []) {
+      if (typeof value === 'string' && value.length > 0) read.add(value);
+    }
+    return [...read];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Login script ${scriptPath} failed: ${redactSecrets(message, [...read])}`);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Cookie values of the session, whether they came from the storage state or
+ * the login script. Short values are left out, since they are flags such as
+ * "1" or "true" rather than credentials and would redact ordinary text.
+ */
+export async function sessionSecrets(context: BrowserContext): Promise<string[]> {
+  const cookies = await context.cookies();
+  return cookies.map(cookie => cookie.value).filter(value => value.length >= MIN_COOKIE_SECRET_LENGTH);
+}
+
+/**
+ * Replace every secret in the strings of a value, e.g. a report about to be written
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  if (secrets.length === 0) return value;
+
+  // Longest first, so a secret containing another is replaced whole
+  const sorted = [...secrets].sort((a, b) => b.length - a.length);
+  const redact = (text: string) => sorted.reduce((result, secret) => result.split(secret).join('[REDACTED]'), text);
+
+  return JSON.parse(JSON.stringify(value), (_, item) => typeof item === 'string' ? redact(item) : item);
+}
+
+/**
+ * Expand ${VAR} references; a missing variable is an error rather than an empty value
+ */
+function expandEnv(template: string, env: NodeJS.ProcessEnv): { value: string; expanded: string[] } {
+  const expanded: string[] = [];
+  const value = template.replace(ENV_REFERENCE, (_, name: string) => {
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    expanded.push(resolved);
+    return resolved;
+  });
+
+  return { value, expanded };
+}
+
+function requireEnvReference(template: string, label: string): void {
+  if (!new RegExp(ENV_REFERENCE.source).test(template)) {
+    throw new Error(`${label} must come from an environment variable, e.g. \${SITE_TOKEN}`);
+  }
+}
+
+function loadLoginScript(scriptPath: string): LoginScript {
+  const resolved = path.resolve(scriptPath);
+
+  let loaded: any;
+  try {
+    loaded = require(resolved);
+  } catch (error) {
+    throw new Error(`Could not load login script ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const login = typeof loaded === 'function' ? loaded : loaded.default ?? loaded.login;
+  if (typeof login !== 'function') {
+    throw new Error(`Login script ${resolved} must export a function (default export or "login")`);
+  }
+
+  return login;
+}
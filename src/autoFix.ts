@@ -0,0 +1,180 @@
+import { GrammarError } from './grammarChecker';
+
+// Lines of unchanged text shown around each change in a diff
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * A replacement mapped to a range of the file
+ */
+export interface FileEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A finding with replacements, and either the file edits they map to or
+ * why they can't be applied safely
+ */
+export interface FixCandidate {
+  error: GrammarError;
+  edits?: FileEdit[];
+  reason?: string;
+}
+
+/**
+ * A fix as listed in the report
+ */
+export interface FixRecord {
+  ruleId: string;
+  message: string;
+  line?: number;
+  column?: number;
+  // Why the fix was skipped
+  reason?: string;
+}
+
+export interface FixSummary {
+  // Whether the file was left as it was (--dry-run)
+  dryRun: boolean;
+  applied: FixRecord[];
+  skipped: FixRecord[];
+}
+
+/**
+ * Apply every candidate that maps to the file and doesn't overlap an earlier
+ * one. Overlapping fixes are all skipped, since applying either one could
+ * change what the other was meant to fix.
+ */
+export function applyFixes(source: string, candidates: FixCandidate[]): {
+  fixed: string;
+  applied: GrammarError[];
+  skipped: { error: GrammarError; reason: string }[];
+} {
+  const skipped = candidates
+    .filter(candidate => !candidate.edits)
+    .map(candidate => ({ error: candidate.error, reason: candidate.reason || 'it could not be mapped to the file' }));
+  const mapped = candidates.filter(candidate => candidate.edits && candidate.edits.length > 0);
+
+  const overlapping = new Set<FixCandidate>();
+  for (let i = 0; i < mapped.length; i++) {
+    for (let j = i + 1; j < mapped.length; j++) {
+      if (mapped[i].edits!.some(a => mapped[j].edits!.some(b => overlaps(a, b)))) {
+        overlapping.add(mapped[i]);
+        overlapping.add(mapped[j]);
+      }
+    }
+  }
+  skipped.push(...[...overlapping].map(candidate => ({ error: candidate.error, reason: 'it overlaps another fix' })));
+
+  const accepted = mapped.filter(candidate => !overlapping.has(candidate));
+  // Edits are applied from the end of the file so earlier offsets stay valid
+  const edits = accepted.flatMap(candidate => candidate.edits!).sort((a, b) => b.start - a.start);
+  let fixed = source;
+  for (const edit of edits) {
+    fixed = fixed.slice(0, edit.start) + edit.text + fixed.slice(edit.end);
+  }
+
+  return { fixed, applied: accepted.map(candidate => candidate.error), skipped };
+}
+
+/**
+ * List a fix in the report
+ */
+export function toFixRecord(error: GrammarError, reason?: string): FixRecord {
+  return { ruleId: error.ruleId, message: error.message, line: error.line, column: error.column, reason };
+}
+
+/**
+ * A unified diff of two versions of a file, or an empty string when they are the same
+ */
+export function unifiedDiff(filePath: string, before: string, after: string): string {
+  if (before === after) return '';
+
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changes = lines.map((line, index) => line.type === ' ' ? -1 : index).filter(index => index !== -1);
+
+  // Changes close enough to share context lines go in one hunk
+  const hunks: [number, number][] = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= DIFF_CONTEXT_LINES * 2 + 1) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  for (const [first, last] of hunks) {
+    const start = Math.max(0, first - DIFF_CONTEXT_LINES);
+    const end = Math.min(lines.length, last + DIFF_CONTEXT_LINES + 1);
+    const hunk = lines.slice(start, end);
+
+    const oldBefore = lines.slice(0, start).filter(line => line.type !== '+').length;
+    const newBefore = lines.slice(0, start).filter(line => line.type !== '-').length;
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+
+    output.push(`@@ -${range(oldBefore, oldCount)} +${range(newBefore, newCount)} @@`);
+    output.push(...hunk.map(line => `${line.type}${line.text}`));
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+function overlaps(a: FileEdit, b: FileEdit): boolean {
+  // Two insertions at one point conflict too, since their order is arbitrary
+  return (a.start < b.end && b.start < a.end) || a.start === b.start;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+}
+
+/**
+ * Line-by-line diff of the changed middle of two files, by longest common subsequence
+ */
+function diffLines(a: string[], b: string[]): { type: ' ' | '-' | '+'; text: string }[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  const width = newLines.length + 1;
+  // common[i * width + j]: length of the longest common subsequence of oldLines[i..] and newLines[j..]
+  const common = new Uint32Array((oldLines.length + 1) * width);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i * width + j] = oldLines[i] === newLines[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const lines: { type: ' ' | '-' | '+'; text: string }[] = a.slice(0, prefix).map(text => ({ type: ' ' as const, text }));
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ type: ' ', text: oldLines[i++] });
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      lines.push({ type: '-', text: oldLines[i++] });
+    } else {
+      lines.push({ type: '+', text: newLines[j++] });
+    }
+  }
+  lines.push(...a.slice(a.length - suffix).map(text => ({ type: ' ' as const, text })));
+
+  return lines;
+}
+
+function range(before: number, count: number): string {
+  // An empty range is numbered by the line before it
+  const start = count === 0 ? before : before + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
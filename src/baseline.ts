@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckResult, GrammarError } from './grammarChecker';
+import { SiteReport } from './crawler';
+
+export const DEFAULT_BASELINE_FILE = '.grammar-baseline.json';
+
+export interface BaselineEntry {
+  fingerprint: string;
+  url: string;
+  ruleId: string;
+  context: string;
+}
+
+/**
+ * Known findings that should not be reported again
+ */
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * Stable identity for a finding. Offsets are left out on purpose so that
+ * edits elsewhere on the page do not resurface a suppressed finding.
+ */
+export function fingerprintFinding(url: string, error: Pick<GrammarError, 'ruleId' | 'context'>): string {
+  return crypto
+    .createHash('sha1')
+    .update(`${normalizeUrl(url)}|${error.ruleId}|${normalizeContext(error.context)}`)
+    .digest('hex');
+}
+
+/**
+ * Load the fingerprints recorded in a baseline file
+ */
+export async function loadBaseline(filePath: string): Promise<Set<string>> {
+  const baseline = await readBaseline(filePath);
+  return new Set(baseline.findings.map(entry => entry.fingerprint));
+}
+
+/**
+ * Read and validate a baseline file
+ */
+export async function readBaseline(filePath: string): Promise<Baseline> {
+  let baseline: Baseline;
+  try {
+    baseline = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read baseline ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isBaseline(baseline)) {
+    throw new Error(`Invalid baseline ${filePath}: expected a "findings" list`);
+  }
+
+  return baseline;
+}
+
+/**
+ * Whether parsed JSON is a baseline rather than a report
+ */
+export function isBaseline(data: any): data is Baseline {
+  return !!data && typeof data === 'object' && Array.isArray(data.findings);
+}
+
+/**
+ * Record every finding in the given results as the new baseline
+ */
+export async function writeBaseline(filePath: string, results: CheckResult[]): Promise<number> {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const result of results) {
+    for (const error of result.errors) {
+      const fingerprint = fingerprintFinding(result.url, error);
+      entries.set(fingerprint, { fingerprint, url: result.url, ruleId: error.ruleId, context: error.context });
+    }
+  }
+
+  const baseline: Baseline = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    // Sorted so the file diffs cleanly between updates
+    findings: [...entries.values()].sort((a, b) =>
+      a.url.localeCompare(b.url) || a.ruleId.localeCompare(b.ruleId) || a.context.localeCompare(b.context)
+    )
+  };
+
+  await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+
+  return baseline.findings.length;
+}
+
+/**
+ * Drop findings that are in the baseline and count how many were suppressed
+ */
+export function applyBaseline(result: CheckResult, fingerprints: Set<string>): CheckResult {
+  const errors = result.errors.filter(error => !fingerprints.has(fingerprintFinding(result.url, error)));
+
+  return {
+    ...result,
+    errors,
+    totalErrors: errors.length,
+    suppressedErrors: (result.suppressedErrors || 0) + result.errors.length - errors.length
+  };
+}
+
+/**
+ * Apply the baseline to every page of a site report
+ */
+export function applyBaselineToSite(report: SiteReport, fingerprints: Set<string>): SiteReport {
+  const pages = report.pages.map(page => applyBaseline(page, fingerprints));
+
+  return {
+    ...report,
+    pages,
+    totalErrors: pages.reduce((sum, page) => sum + page.totalErrors, 0),
+    suppressedErrors: pages.reduce((sum, page) => sum + (page.suppressedErrors || 0), 0)
+  };
+}
+
+/**
+ * A page URL without its fragment or trailing slash, so the same page always matches
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+function normalizeContext(context: string): string {
+  return context.replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -0,0 +1,139 @@
+import { GrammarChecker } from './grammarChecker';
+import { GrammarConfig, GrammarSettings, resolveSettings } from './config';
+import { RuleRegistry } from './rules/registry';
+import { PageLoader } from './pageLoader';
+import { DEFAULT_IGNORE_PATTERNS, DEFAULT_INCOMPLETE_PATTERNS, SentenceAnalyzer, compilePatterns } from './sentenceAnalyzer';
+import { DEFAULT_TERMS_FILE, TermLists, defaultTermLists, loadTermLists } from './termLists';
+import {
+  DEFAULT_BRANDS_FILE,
+  DEFAULT_DICTIONARY_FILE,
+  loadWordList,
+  resolveWordListPath
+} from './customDictionary';
+
+/**
+ * Builds a GrammarChecker for each page with the settings that apply to its URL.
+ * Word lists and rule registries are loaded once and shared between pages
+ * that resolve to the same files.
+ */
+export class CheckerFactory {
+  private wordLists: Map<string, Promise<string[]>>;
+  private registries: Map<string, Promise<RuleRegistry>>;
+  private termLists: Promise<TermLists> | null = null;
+
+  constructor(private config: GrammarConfig, private explicit: GrammarSettings) {
+    this.wordLists = new Map<string, Promise<string[]>>();
+    this.registries = new Map<string, Promise<RuleRegistry>>();
+  }
+
+  /**
+   * Effective settings for a URL (or the run as a whole when no URL is given)
+   */
+  settingsFor(url?: string): GrammarSettings {
+    return resolveSettings(this.config, this.explicit, url);
+  }
+
+  /**
+   * Create a checker for a page
+   */
+  async create(url?: string): Promise<GrammarChecker> {
+    const settings = this.settingsFor(url);
+
+    // Project dictionary and brand list default to files in the working directory
+    const dictionaryPath = resolveWordListPath(settings.customDictionary, DEFAULT_DICTIONARY_FILE);
+    const brandListPath = resolveWordListPath(settings.brandList, DEFAULT_BRANDS_FILE);
+
+    const [customWords, brandListTerms, ruleRegistry, termLists] = await Promise.all([
+      dictionaryPath ? this.loadWordList(dictionaryPath) : Promise.resolve([]),
+      brandListPath ? this.loadWordList(brandListPath) : Promise.resolve([]),
+      this.loadRegistry(settings.rulesDir, settings.rulesFile),
+      this.loadTermLists(settings.termsFile)
+    ]);
+
+    return new GrammarChecker({
+      language: settings.language || 'en-US',
+      detectLanguage: settings.detectLanguage,
+      motherTongue: settings.motherTongue,
+      disabledRules: settings.disabledRules || [],
+      minSeverity: settings.minSeverity,
+      categories: settings.categories,
+      detectIncomplete: settings.detectIncomplete !== false,
+      sentenceAnalyzer: new SentenceAnalyzer({
+        ignorePatterns: [...DEFAULT_IGNORE_PATTERNS, ...compilePatterns(settings.ignorePatterns || [], 'ignorePatterns')],
+        incompletePatterns: [...DEFAULT_INCOMPLETE_PATTERNS, ...compilePatterns(settings.incompletePatterns || [], 'incompletePatterns')]
+      }),
+      checkSpelling: settings.checkSpelling !== false,
+      checkStyle: settings.checkStyle !== false,
+      maxSentenceWords: settings.maxSentenceWords,
+      termLists,
+      dictionaryDir: settings.dictionaryDir,
+      customWords,
+      brandTerms: [...(settings.brandTerms || []), ...brandListTerms],
+      languageToolUrl: settings.languageToolUrl,
+      extractionStrategy: settings.extractionStrategy,
+      includeSelectors: settings.includeSelectors,
+      excludeSelectors: settings.excludeSelectors,
+      textSources: settings.textSources,
+      skipHidden: settings.skipHidden,
+      ruleRegistry
+    });
+  }
+
+  /**
+   * Create a loader that navigates to a page and waits for it the way its URL is configured to
+   */
+  createLoader(url?: string): PageLoader {
+    const settings = this.settingsFor(url);
+    
+    return new PageLoader({
+      waitUntil: settings.waitUntil,
+      waitForSelector: settings.waitForSelector,
+      waitForFunction: settings.waitForFunction,
+      waitForTimeout: settings.waitForTimeout,
+      expandDetails: settings.expandDetails,
+      interactionScript: settings.interactionScript
+    });
+  }
+
+  /**
+   * Load every resource the run-level settings refer to, so a bad path
+   * fails before any page is opened
+   */
+  async preload(): Promise<void> {
+    await this.create();
+    await this.createLoader().ready();
+  }
+
+  private loadWordList(filePath: string): Promise<string[]> {
+    let words = this.wordLists.get(filePath);
+    if (!words) {
+      words = loadWordList(filePath);
+      this.wordLists.set(filePath, words);
+    }
+    return words;
+  }
+
+  /**
+   * The terms file is a run-level setting, so it is loaded once
+   */
+  private loadTermLists(termsFile?: string): Promise<TermLists> {
+    if (!this.termLists) {
+      const filePath = resolveWordListPath(termsFile, DEFAULT_TERMS_FILE);
+      this.termLists = filePath ? loadTermLists(filePath) : Promise.resolve(defaultTermLists());
+    }
+    return this.termLists;
+  }
+
+  private loadRegistry(rulesDir?: string, rulesFile?: string): Promise<RuleRegistry> {
+    const key = `${rulesDir || ''}|${rulesFile || ''}`;
+    let registry = this.registries.get(key);
+    if (!registry) {
+      registry = RuleRegistry.create({
+        ruleDirs: rulesDir ? [rulesDir] : [],
+        rulesFiles: rulesFile ? [rulesFile] : []
+      });
+      this.registries.set(key, registry);
+    }
+    return registry;
+  }
+}
@@ -0,0 +1,64 @@
+import { CheckResult } from './grammarChecker';
+import { PageFailure } from './crawler';
+import { SEVERITIES, Severity } from './rules/types';
+
+/**
+ * Thresholds that fail a run, for blocking deploys in CI
+ */
+export interface GateOptions {
+  // Fail when any finding is at least this severe
+  failOn?: Severity;
+  // Fail when there are more findings than this
+  maxIssues?: number;
+}
+
+export interface GateResult {
+  passed: boolean;
+  // Why the run failed, one line per broken threshold
+  reasons: string[];
+}
+
+/**
+ * Throw on thresholds that can never be met, before any page is checked
+ */
+export function validateGateOptions(options: GateOptions): void {
+  if (options.failOn !== undefined && !SEVERITIES.includes(options.failOn)) {
+    throw new Error(`Unknown severity "${options.failOn}" for failOn; expected one of ${SEVERITIES.join(', ')}`);
+  }
+  if (options.maxIssues !== undefined && !(Number.isInteger(options.maxIssues) && options.maxIssues >= 0)) {
+    throw new Error(`maxIssues must be a whole number of at least 0, got ${options.maxIssues}`);
+  }
+}
+
+/**
+ * Check the reported findings against the thresholds. Findings suppressed by
+ * the baseline don't count. Pages that could not be checked fail the run
+ * whenever a threshold is set, so a broken page can't pass unnoticed.
+ */
+export function evaluateGate(pages: Pick<CheckResult, 'errors'>[], options: GateOptions, failures: PageFailure[] = []): GateResult {
+  const reasons: string[] = [];
+  if (options.failOn === undefined && options.maxIssues === undefined) {
+    return { passed: true, reasons };
+  }
+
+  const errors = pages.flatMap(page => page.errors);
+
+  if (options.failOn !== undefined) {
+    const maxRank = SEVERITIES.indexOf(options.failOn);
+    const failing = errors.filter(error => SEVERITIES.indexOf(error.severity) <= maxRank).length;
+    if (failing > 0) {
+      const above = options.failOn === 'error' ? '' : ' or above';
+      reasons.push(`${failing} ${failing === 1 ? 'issue' : 'issues'} at severity ${options.failOn}${above} (--fail-on ${options.failOn})`);
+    }
+  }
+
+  if (options.maxIssues !== undefined && errors.length > options.maxIssues) {
+    reasons.push(`${errors.length} issues found, more than the maximum of ${options.maxIssues} (--max-issues)`);
+  }
+
+  if (failures.length > 0) {
+    reasons.push(`${failures.length} ${failures.length === 1 ? 'page' : 'pages'} could not be checked`);
+  }
+
+  return { passed: reasons.length === 0, reasons };
+}
@@ -1,95 +1,76 @@
 #!/usr/bin/env node
-import { checkWebsiteGrammar } from './index';
-
-interface CliArgs {
-  url: string;
-  language?: string;
-  outputFormat?: 'console' | 'json' | 'html' | 'markdown';
-  outputPath?: string;
-  includeRawText?: boolean;
-  headless?: boolean;
-  detectIncomplete?: boolean;
-}
-
-function parseArgs(): CliArgs {
-  const args = process.argv.slice(2);
-  const options: CliArgs = {
-    url: '',
-  };
-  
-  // First argument is always the URL
-  options.url = args[0];
-  
-  // Process other arguments
-  for (let i = 1; i < args.length; i++) {
-    const arg = args[i];
-    
-    if (arg === '--language' || arg === '-l') {
-      options.language = args[++i];
-    } else if (arg === '--output-format' || arg === '-f') {
-      options.outputFormat = args[++i] as any;
-    } else if (arg === '--output-path' || arg === '-o') {
-      options.outputPath = args[++i];
-    } else if (arg === '--include-raw-text' || arg === '-r') {
-      options.includeRawText = true;
-    } else if (arg === '--no-headless') {
-      options.headless = false;
-    } else if (arg === '--no-incomplete') {
-      options.detectIncomplete = false;
-    } else if (arg === '--help' || arg === '-h') {
-      showHelp();
-      process.exit(0);
-    }
-  }
-  
-  return options;
-}
-
-function showHelp(): void {
-  console.log(`
-  Website Grammar Checker
-
-  Usage: 
-    npx ts-node src/cli.ts <url> [options]
-
-  Options:
-    --language, -l           Language code (default: en-US)
-    --output-format, -f      Output format: console, json, html, markdown (default: console)
-    --output-path, -o        Path to save the report (required for non-console outputs)
-    --include-raw-text, -r   Include raw extracted text in the report
-    --no-headless            Run browser in non-headless mode
-    --no-incomplete          Disable detection of incomplete sentences
-    --help, -h               Show this help message
-  
-  Examples:
-    npx ts-node src/cli.ts https://example.com
-    npx ts-node src/cli.ts https://example.com -f html -o ./reports/report.html
-    npx ts-node src/cli.ts https://example.com -l de-DE --no-headless
-  `);
-}
+import { addToDictionary, checkWebsiteGrammar, compareReports, getEffectiveConfig } from './index';
+import { CliArgs, parseArgs, showHelp } from './args';
+import { GateResult } from './ciGate';
 
 async function main(): Promise<void> {
-  const options = parseArgs();
-  
-  if (!options.url) {
-    console.error('Error: URL is required');
-    showHelp();
+  let options: CliArgs;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error('Run with --help for usage');
     process.exit(1);
   }
   
-  if (options.outputFormat && options.outputFormat !== 'console' && !options.outputPath) {
-    console.error(`Error: --output-path is required for ${options.outputFormat} output format`);
-    process.exit(1);
+  if (options.help) {
+    showHelp();
+    process.exit(0);
   }
   
   try {
-    await checkWebsiteGrammar(options);
+    const effective = await getEffectiveConfig(options);
+    
+    if (options.printConfig) {
+      console.log(JSON.stringify(effective, null, 2));
+      return;
+    }
+    
+    if (options.addToDictionary) {
+      await addToDictionary(options.addToDictionary, effective.settings.customDictionary);
+      return;
+    }
+    
+    if (options.compare) {
+      if (options.compare.length !== 2) {
+        console.error('Error: compare needs two reports: the earlier run (or a baseline) and the later run');
+        process.exit(1);
+      }
+      reportGate(await compareReports(options.compare[0], options.compare[1], options));
+      return;
+    }
+    
+    if (!options.url && !options.sitemap && !options.urlList && !options.files) {
+      console.error('Error: a URL, files, --sitemap or --url-list is required');
+      showHelp();
+      process.exit(1);
+    }
+    
+    const { outputFormat, outputPath } = effective.settings;
+    if (outputFormat && outputFormat !== 'console' && !outputPath) {
+      console.error(`Error: --output-path is required for ${outputFormat} output format`);
+      process.exit(1);
+    }
+    
+    reportGate(await checkWebsiteGrammar(options));
   } catch (error) {
     console.error('Error:', error);
     process.exit(1);
   }
 }
 
+/**
+ * Print why the run failed its thresholds and set the exit code
+ */
+function reportGate(gate: GateResult): void {
+  if (!gate.passed) {
+    console.error(`\nGrammar check failed:\n  ${gate.reasons.join('\n  ')}`);
+    process.exitCode = 1;
+  }
+}
+
 if (require.main === module) {
   main();
-}
\ No newline at end of file
+}
+
+export { main };
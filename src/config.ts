@@ -0,0 +1,352 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { matchesUrlPattern } from './urlPattern';
+import { EXTRACTION_STRATEGIES, ExtractionStrategy } from './extraction';
+import { TEXT_SOURCE_KINDS, TextSource } from './textSources';
+import { WAIT_UNTIL_VALUES, WaitUntil } from './pageLoader';
+import { AuthSettings } from './auth';
+import { CATEGORIES, Category, SEVERITIES, Severity } from './rules/types';
+
+/**
+ * Settings that can come from a config file, the CLI or the API
+ */
+export interface GrammarSettings extends AuthSettings {
+  language?: string;
+  detectLanguage?: boolean;
+  motherTongue?: string;
+  disabledRules?: string[];
+  minSeverity?: Severity;
+  categories?: Category[];
+  detectIncomplete?: boolean;
+  // Regular expressions for text to leave unchecked and for incomplete sentences, added to the built-in ones
+  ignorePatterns?: string[];
+  incompletePatterns?: string[];
+  checkSpelling?: boolean;
+  checkStyle?: boolean;
+  maxSentenceWords?: number;
+  dictionaryDir?: string;
+  customDictionary?: string;
+  brandList?: string;
+  brandTerms?: string[];
+  termsFile?: string;
+  languageToolUrl?: string;
+  rulesDir?: string;
+  rulesFile?: string;
+  extractionStrategy?: ExtractionStrategy;
+  includeSelectors?: string[];
+  excludeSelectors?: string[];
+  textSources?: TextSource['kind'][];
+  skipHidden?: boolean;
+  waitUntil?: WaitUntil;
+  waitForSelector?: string;
+  waitForFunction?: string;
+  waitForTimeout?: number;
+  expandDetails?: boolean;
+  interactionScript?: string;
+  outputFormat?: OutputFormat;
+  outputPath?: string;
+  includeRawText?: boolean;
+  headless?: boolean;
+  crawl?: boolean;
+  maxDepth?: number;
+  maxPages?: number;
+  concurrency?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  baseline?: string;
+  screenshots?: boolean;
+  screenshotDir?: string;
+  failOn?: Severity;
+  maxIssues?: number;
+}
+
+export type OutputFormat = 'console' | 'json' | 'html' | 'markdown' | 'sarif' | 'junit';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['console', 'json', 'html', 'markdown', 'sarif', 'junit'];
+
+/**
+ * Contents of a config file: settings plus overrides keyed by URL glob,
+ * e.g. { "/de/*": { "language": "de-DE" } }
+ */
+export interface GrammarConfig extends GrammarSettings {
+  overrides?: Record<string, GrammarSettings>;
+}
+
+export interface LoadedConfig {
+  // Path the config was loaded from, or null if none was found
+  path: string | null;
+  config: GrammarConfig;
+}
+
+// Searched for in this order, from the working directory upwards
+export const CONFIG_FILE_NAMES = [
+  '.grammarrc.json',
+  '.grammarrc',
+  '.grammarrc.yml',
+  '.grammarrc.yaml',
+  'grammar.config.js'
+];
+
+// Settings that only make sense once per run and are ignored inside overrides
+const RUN_LEVEL_SETTINGS: (keyof GrammarSettings)[] = [
+  'outputFormat', 'outputPath', 'includeRawText', 'headless', 'crawl',
+  'maxDepth', 'maxPages', 'concurrency', 'includePatterns', 'excludePatterns', 'baseline',
+  'screenshots', 'screenshotDir', 'storageState', 'httpHeaders', 'basicAuth', 'loginScript', 'termsFile',
+  'failOn', 'maxIssues'
+];
+
+// File settings that are resolved relative to the config file
+const PATH_SETTINGS: (keyof GrammarSettings)[] = [
+  'dictionaryDir', 'customDictionary', 'brandList', 'rulesDir', 'rulesFile', 'baseline', 'screenshotDir',
+  'interactionScript', 'storageState', 'loginScript', 'termsFile'
+];
+
+const SETTING_TYPES: Record<keyof GrammarSettings, 'string' | 'boolean' | 'number' | 'string[]'> = {
+  language: 'string',
+  detectLanguage: 'boolean',
+  motherTongue: 'string',
+  disabledRules: 'string[]',
+  minSeverity: 'string',
+  categories: 'string[]',
+  detectIncomplete: 'boolean',
+  ignorePatterns: 'string[]',
+  incompletePatterns: 'string[]',
+  checkSpelling: 'boolean',
+  checkStyle: 'boolean',
+  maxSentenceWords: 'number',
+  dictionaryDir: 'string',
+  customDictionary: 'string',
+  brandList: 'string',
+  brandTerms: 'string[]',
+  termsFile: 'string',
+  languageToolUrl: 'string',
+  rulesDir: 'string',
+  rulesFile: 'string',
+  extractionStrategy: 'string',
+  includeSelectors: 'string[]',
+  excludeSelectors: 'string[]',
+  textSources: 'string[]',
+  skipHidden: 'boolean',
+  waitUntil: 'string',
+  waitForSelector: 'string',
+  waitForFunction: 'string',
+  waitForTimeout: 'number',
+  expandDetails: 'boolean',
+  interactionScript: 'string',
+  storageState: 'string',
+  httpHeaders: 'string[]',
+  basicAuth: 'string',
+  loginScript: 'string',
+  outputFormat: 'string',
+  outputPath: 'string',
+  includeRawText: 'boolean',
+  headless: 'boolean',
+  crawl: 'boolean',
+  maxDepth: 'number',
+  maxPages: 'number',
+  concurrency: 'number',
+  includePatterns: 'string[]',
+  excludePatterns: 'string[]',
+  baseline: 'string',
+  screenshots: 'boolean',
+  screenshotDir: 'string',
+  failOn: 'string',
+  maxIssues: 'number'
+};
+
+// Settings that only take one of a fixed set of values (each value, for lists)
+const SETTING_VALUES: Partial<Record<keyof GrammarSettings, readonly string[]>> = {
+  minSeverity: SEVERITIES,
+  categories: CATEGORIES,
+  extractionStrategy: EXTRACTION_STRATEGIES,
+  textSources: TEXT_SOURCE_KINDS,
+  waitUntil: WAIT_UNTIL_VALUES,
+  outputFormat: OUTPUT_FORMATS,
+  failOn: SEVERITIES
+};
+
+/**
+ * Load the config file at the given path, or discover one from the
+ * working directory upwards. Returns an empty config if none exists.
+ */
+export async function loadConfig(explicitPath?: string, cwd = process.cwd()): Promise<LoadedConfig> {
+  const configPath = explicitPath ? path.resolve(cwd, explicitPath) : findConfigFile(cwd);
+  if (!configPath) {
+    return { path: null, config: {} };
+  }
+
+  const raw = await readConfigFile(configPath);
+  const config = validateConfig(raw, configPath);
+
+  return { path: configPath, config: resolveConfigPaths(config, path.dirname(configPath)) };
+}
+
+/**
+ * Walk up from a directory looking for a config file
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Layer settings left to right; undefined values never override
+ */
+export function mergeSettings(...layers: (GrammarSettings | undefined)[]): GrammarSettings {
+  const merged: GrammarSettings = {};
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && key in SETTING_TYPES) {
+        (merged as any)[key] = value;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Effective settings for a URL: config file, then each matching override in
+ * file order, then explicit options (CLI flags), which always win
+ */
+export function resolveSettings(config: GrammarConfig, explicit: GrammarSettings, url?: string): GrammarSettings {
+  const overrides = url
+    ? Object.entries(config.overrides || {})
+      .filter(([pattern]) => matchesUrlPattern(url, pattern))
+      .map(([, settings]) => settings)
+    : [];
+
+  return mergeSettings(config, ...overrides, explicit);
+}
+
+async function readConfigFile(configPath: string): Promise<unknown> {
+  // A plain require can't load TypeScript outside ts-node, e.g. from the compiled build
+  if (/\.ts$/.test(configPath)) {
+    throw new Error(`Unsupported config file ${configPath}: use grammar.config.js or a .grammarrc file instead`);
+  }
+
+  if (/\.js$/.test(configPath)) {
+    const loaded = require(configPath);
+    return loaded.default ?? loaded;
+  }
+
+  const source = await fs.promises.readFile(configPath, 'utf8');
+  try {
+    // JSON is valid YAML, so one parser covers .grammarrc in either format
+    return parseYaml(source);
+  } catch (error) {
+    throw new Error(`Invalid config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function validateConfig(raw: unknown, configPath: string): GrammarConfig {
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid config file ${configPath}: expected an object`);
+  }
+
+  const problems: string[] = [];
+  const { overrides, ...settings } = raw as Record<string, unknown>;
+
+  problems.push(...validateSettings(settings, ''));
+
+  if (overrides !== undefined) {
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      problems.push('"overrides" must be an object keyed by URL pattern');
+    } else {
+      for (const [pattern, value] of Object.entries(overrides)) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          problems.push(`overrides["${pattern}"] must be an object`);
+          continue;
+        }
+        problems.push(...validateSettings(value as Record<string, unknown>, `overrides["${pattern}"].`));
+        for (const key of RUN_LEVEL_SETTINGS) {
+          if (key in value) problems.push(`overrides["${pattern}"].${key} can only be set at the top level`);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config file ${configPath}:\n  ${problems.join('\n  ')}`);
+  }
+
+  return raw as GrammarConfig;
+}
+
+function validateSettings(settings: Record<string, unknown>, prefix: string): string[] {
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(settings)) {
+    const expected = SETTING_TYPES[key as keyof GrammarSettings];
+    if (!expected) {
+      problems.push(`unknown setting "${prefix}${key}"`);
+      continue;
+    }
+
+    const valid = expected === 'string[]'
+      ? Array.isArray(value) && value.every(item => typeof item === 'string')
+      : typeof value === expected;
+    if (!valid) {
+      problems.push(`"${prefix}${key}" must be a ${expected === 'string[]' ? 'list of strings' : expected}`);
+      continue;
+    }
+
+    const problem = settingValueProblem(key, value, `"${prefix}${key}"`);
+    if (problem) problems.push(problem);
+  }
+
+  return problems;
+}
+
+/**
+ * Problems with settings that take one of a fixed set of values, e.g. an
+ * unknown output format; used for CLI flags, which skip the type checks above.
+ * Settings are named by their label, such as the flag that set them.
+ */
+export function settingValueProblems(settings: GrammarSettings, labels: Partial<Record<keyof GrammarSettings, string>> = {}): string[] {
+  return Object.entries(settings)
+    .map(([key, value]) => settingValueProblem(key, value, labels[key as keyof GrammarSettings] ?? `"${key}"`))
+    .filter((problem): problem is string => problem !== undefined);
+}
+
+function settingValueProblem(key: string, value: unknown, label: string): string | undefined {
+  const allowed = SETTING_VALUES[key as keyof GrammarSettings];
+  if (!allowed || value === undefined) return undefined;
+
+  const unknown = (Array.isArray(value) ? value : [value]).filter(item => !allowed.includes(item));
+  if (unknown.length === 0) return undefined;
+  return `${label} must be one of ${allowed.join(', ')}; got ${unknown.map(item => `"${item}"`).join(', ')}`;
+}
+
+function resolveConfigPaths(config: GrammarConfig, baseDir: string): GrammarConfig {
+  const resolve = (settings: GrammarSettings): GrammarSettings => {
+    const resolved: GrammarSettings = { ...settings };
+    for (const key of PATH_SETTINGS) {
+      const value = resolved[key];
+      if (typeof value === 'string') {
+        (resolved as any)[key] = path.resolve(baseDir, value);
+      }
+    }
+    return resolved;
+  };
+
+  const overrides = config.overrides
+    ? Object.fromEntries(Object.entries(config.overrides).map(([pattern, settings]) => [pattern, resolve(settings)]))
+    : undefined;
+
+  return { ...resolve(config), overrides };
+}
@@ -0,0 +1,191 @@
+import { CheckResult, GrammarError } from './grammarChecker';
+import { SiteReport } from './crawler';
+import { ElementLocation } from './sourceMap';
+import { TextSourceKind } from './textSources';
+import { escapeRegExp, getSurroundingText } from './textUtils';
+import { FindingFilters, filterFindings } from './findingFilters';
+
+/**
+ * Spellings of the same word, of which a page or site should use only one
+ */
+export interface VariantGroup {
+  variants: string[];
+  // Always wins when set; otherwise the most used variant does
+  preferred?: string;
+}
+
+/**
+ * One occurrence of a variant spelling, kept on the page result so the
+ * whole crawl can be compared once every page is checked
+ */
+export interface VariantUsage {
+  // The group's variants joined with "/", e.g. "color/colour"
+  group: string;
+  variant: string;
+  preferred?: string;
+  // The word as written, e.g. "Colours"
+  word: string;
+  context: string;
+  source: TextSourceKind;
+  position: { offset: number; length: number };
+  location?: ElementLocation;
+  line?: number;
+  column?: number;
+}
+
+export const INCONSISTENT_VARIANT_RULE = 'INCONSISTENT_VARIANT';
+
+// US spelling first, UK second
+const US_UK_VARIANTS: [string, string][] = [
+  ['color', 'colour'], ['favorite', 'favourite'], ['behavior', 'behaviour'], ['honor', 'honour'],
+  ['labor', 'labour'], ['neighbor', 'neighbour'], ['flavor', 'flavour'], ['humor', 'humour'],
+  ['center', 'centre'], ['theater', 'theatre'], ['fiber', 'fibre'], ['catalog', 'catalogue'],
+  ['gray', 'grey'], ['organize', 'organise'], ['realize', 'realise'], ['recognize', 'recognise'],
+  ['apologize', 'apologise'], ['customize', 'customise'], ['optimize', 'optimise'], ['prioritize', 'prioritise'],
+  ['personalize', 'personalise'], ['minimize', 'minimise'], ['maximize', 'maximise'], ['summarize', 'summarise'],
+  ['authorize', 'authorise'], ['traveled', 'travelled'], ['traveling', 'travelling'], ['canceled', 'cancelled'],
+  ['canceling', 'cancelling'], ['labeled', 'labelled'], ['labeling', 'labelling'], ['modeling', 'modelling'],
+  ['judgment', 'judgement'], ['defense', 'defence'], ['offense', 'offence'], ['enrollment', 'enrolment'],
+  ['fulfill', 'fulfil']
+];
+
+/**
+ * The built-in US/UK groups, preferring one dialect when given
+ */
+export function defaultVariantGroups(dialect?: 'us' | 'uk'): VariantGroup[] {
+  return US_UK_VARIANTS.map(([us, uk]) => ({
+    variants: [us, uk],
+    preferred: dialect === 'us' ? us : dialect === 'uk' ? uk : undefined
+  }));
+}
+
+/**
+ * Find every variant spelling in a text, including inflected forms such as
+ * "colours" or "organised"
+ */
+export function findVariantUsages(text: string, groups: VariantGroup[], source: TextSourceKind): VariantUsage[] {
+  const usages: VariantUsage[] = [];
+
+  for (const group of groups) {
+    for (const variant of group.variants) {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}'’-])${variantForms(variant)}(?![\\p{L}\\p{N}'’-])`, 'giu');
+
+      let match;
+      while ((match = pattern.exec(text)) !== null) {
+        usages.push({
+          group: group.variants.join('/'),
+          variant: variant.toLowerCase(),
+          preferred: group.preferred?.toLowerCase(),
+          word: match[0],
+          context: getSurroundingText(text, match.index, match[0].length),
+          source,
+          position: { offset: match.index, length: match[0].length }
+        });
+      }
+    }
+  }
+
+  return usages.sort((a, b) => a.position.offset - b.position.offset);
+}
+
+/**
+ * Report every usage that is not the winning variant of its group: the
+ * preferred one, or else the most used in scope (ties go to the first used).
+ * Groups with a single variant in scope are consistent unless a preference is set.
+ */
+export function inconsistentVariantErrors(
+  usages: VariantUsage[],
+  scope: VariantUsage[] = usages,
+  scopeLabel = 'on this page'
+): GrammarError[] {
+  const counts = new Map<string, Map<string, number>>();
+  for (const usage of scope) {
+    const group = counts.get(usage.group) || new Map<string, number>();
+    group.set(usage.variant, (group.get(usage.variant) || 0) + 1);
+    counts.set(usage.group, group);
+  }
+
+  const errors: GrammarError[] = [];
+  for (const usage of usages) {
+    const variants = counts.get(usage.group)!;
+    const winner = usage.preferred || [...variants.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+    if (usage.variant === winner) continue;
+
+    const replacement = respell(usage.word, usage.variant, winner);
+    errors.push({
+      message: usage.preferred
+        ? `"${usage.word}" should be spelled "${replacement}"`
+        : `"${usage.word}" is spelled "${replacement}" elsewhere (${plural(variants.get(winner)!, 'time')} ${scopeLabel})`,
+      context: usage.context,
+      suggestions: [replacement],
+      ruleId: INCONSISTENT_VARIANT_RULE,
+      word: usage.word,
+      severity: 'warning',
+      category: 'consistency',
+      confidence: 0.9,
+      position: usage.position,
+      source: usage.source,
+      location: usage.location,
+      hidden: usage.location?.hidden || undefined,
+      line: usage.line,
+      column: usage.column
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Compare variant spellings across every page of a crawl. The per-page
+ * findings are replaced, so a page that consistently writes "colour" is
+ * still flagged when the rest of the site writes "color".
+ */
+export function applySiteConsistency(report: SiteReport, filters: FindingFilters = {}): SiteReport {
+  if (filters.disabledRules?.includes(INCONSISTENT_VARIANT_RULE)) return report;
+
+  const allUsages = report.pages.flatMap(page => page.variantUsages || []);
+  const pages: CheckResult[] = report.pages.map(page => {
+    const errors = [
+      ...page.errors.filter(error => error.ruleId !== INCONSISTENT_VARIANT_RULE),
+      ...filterFindings(inconsistentVariantErrors(page.variantUsages || [], allUsages, 'across the site'), filters)
+    ];
+    return { ...page, errors, totalErrors: errors.length };
+  });
+
+  return {
+    ...report,
+    pages,
+    totalErrors: pages.reduce((sum, page) => sum + page.totalErrors, 0)
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Regex source matching a variant and its inflections. A final "e" may be
+ * dropped, as in "organising".
+ */
+function variantForms(variant: string): string {
+  const words = variant.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return variant.endsWith('e')
+    ? `${words.slice(0, -1)}(?:e|es|ed|er|ers|ing|able|ation|ations)`
+    : `${words}(?:s|es|ed|ing|er|ers|ful|able|ation|ations)?`;
+}
+
+/**
+ * Rewrite a word in another variant, keeping its inflection and capital,
+ * e.g. "Colours" -> "Colors"
+ */
+function respell(word: string, from: string, to: string): string {
+  const stem = (variant: string) => variant.endsWith('e') ? variant.slice(0, -1) : variant;
+  const lower = word.toLowerCase();
+
+  let respelled = to;
+  if (lower !== from && from.endsWith('e') === to.endsWith('e') && lower.startsWith(stem(from))) {
+    respelled = stem(to) + lower.slice(stem(from).length);
+  }
+
+  return /^\p{Lu}/u.test(word) ? respelled.charAt(0).toUpperCase() + respelled.slice(1) : respelled;
+}
@@ -0,0 +1,276 @@
+import { BrowserContext, Page, Response } from '@playwright/test';
+import { CheckResult, GrammarChecker } from './grammarChecker';
+import { isUrlAllowed } from './urlPattern';
+import { ScreenshotCapturer } from './screenshots';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  concurrency?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  // Capture annotated screenshots of each finding into this directory
+  screenshotDir?: string;
+  // Navigate to a page and wait until it is ready (default: wait for network idle)
+  loadPage?: (page: Page, url: string) => Promise<Response | null>;
+}
+
+export interface PageFailure {
+  url: string;
+  error: string;
+}
+
+export interface SiteReport {
+  seedUrl: string;
+  pagesChecked: number;
+  totalErrors: number;
+  pages: CheckResult[];
+  failures: PageFailure[];
+  suppressedErrors?: number;
+}
+
+interface QueuedPage {
+  url: string;
+  depth: number;
+}
+
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_CONCURRENCY = 3;
+
+// Links to these resources are never HTML pages worth checking
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|jpe?g|png|gif|svg|webp|ico|mp3|mp4|mov|avi|webm|css|js|json|xml|txt|csv|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * Throw on crawl limits that would check nothing, before the browser starts
+ */
+export function validateCrawlOptions(options: CrawlOptions): void {
+  if (options.concurrency !== undefined && !(Number.isInteger(options.concurrency) && options.concurrency >= 1)) {
+    throw new Error(`concurrency must be a whole number of at least 1, got ${options.concurrency}`);
+  }
+  if (options.maxPages !== undefined && !(Number.isInteger(options.maxPages) && options.maxPages >= 1)) {
+    throw new Error(`maxPages must be a whole number of at least 1, got ${options.maxPages}`);
+  }
+  if (options.maxDepth !== undefined && !(Number.isInteger(options.maxDepth) && options.maxDepth >= 0)) {
+    throw new Error(`maxDepth must be a whole number of at least 0, got ${options.maxDepth}`);
+  }
+}
+
+export class SiteCrawler {
+  // URLs already queued, so each link is only followed once
+  private visited: Set<string>;
+  // Final URLs of pages that were checked, after redirects
+  private checked: Set<string>;
+  private screenshots: ScreenshotCapturer | null;
+
+  constructor(
+    private context: BrowserContext,
+    private createChecker: (url: string) => Promise<GrammarChecker>,
+    private options: CrawlOptions = {}
+  ) {
+    validateCrawlOptions(this.options);
+    this.options.maxDepth = this.options.maxDepth ?? 2;
+    this.options.concurrency = this.options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.options.includePatterns = this.options.includePatterns || [];
+    this.options.excludePatterns = this.options.excludePatterns || [];
+    this.visited = new Set<string>();
+    this.checked = new Set<string>();
+    this.screenshots = this.options.screenshotDir
+      ? new ScreenshotCapturer({ outputDir: this.options.screenshotDir })
+      : null;
+  }
+
+  /**
+   * Crawl same-origin links breadth-first from the seed URL and check every page
+   */
+  async crawl(seedUrl: string): Promise<SiteReport> {
+    const seed = this.normalizeUrl(seedUrl);
+    if (!seed) {
+      throw new Error(`Invalid seed URL: ${seedUrl}`);
+    }
+
+    const origin = new URL(seed).origin;
+    const limit = this.options.maxPages ?? DEFAULT_MAX_PAGES;
+    const pages: CheckResult[] = [];
+    const failures: PageFailure[] = [];
+
+    this.visited.add(seed);
+    let level: QueuedPage[] = [{ url: seed, depth: 0 }];
+
+    // Process one depth level at a time so pages closest to the seed win the page budget
+    while (level.length > 0) {
+      const nextLevel: QueuedPage[] = [];
+
+      await this.runPool(level, async (page, item) => {
+        if (this.checked.size >= limit) return;
+        console.log(`Checking ${item.url} (depth ${item.depth})...`);
+
+        try {
+          const checkedPage = await this.checkUrl(page, item.url, limit);
+          if (!checkedPage) return;
+          const { result, links } = checkedPage;
+          pages.push(result);
+
+          if (item.depth < this.options.maxDepth!) {
+            for (const link of links) {
+              if (this.shouldEnqueue(link, origin)) {
+                this.visited.add(link);
+                nextLevel.push({ url: link, depth: item.depth + 1 });
+              }
+            }
+          }
+        } catch (error) {
+          failures.push({
+            url: item.url,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      level = this.checked.size < limit ? nextLevel : [];
+    }
+
+    return {
+      seedUrl: seed,
+      pagesChecked: pages.length,
+      totalErrors: pages.reduce((sum, page) => sum + page.totalErrors, 0),
+      pages,
+      failures
+    };
+  }
+
+  /**
+   * Check a fixed list of URLs (e.g. from a sitemap) without following links.
+   * The page limit only applies when one was given explicitly.
+   */
+  async checkUrls(urls: string[], source: string): Promise<SiteReport> {
+    const queue: QueuedPage[] = [];
+    const limit = this.options.maxPages ?? Infinity;
+
+    for (const url of urls) {
+      const normalized = this.normalizeUrl(url);
+      if (!normalized || this.visited.has(normalized)) continue;
+      if (!isUrlAllowed(normalized, this.options.includePatterns, this.options.excludePatterns)) continue;
+
+      this.visited.add(normalized);
+      queue.push({ url: normalized, depth: 0 });
+    }
+
+    const pages: CheckResult[] = [];
+    const failures: PageFailure[] = [];
+
+    await this.runPool(queue, async (page, item) => {
+      if (this.checked.size >= limit) return;
+      console.log(`Checking ${item.url}...`);
+
+      try {
+        const checkedPage = await this.checkUrl(page, item.url, limit);
+        if (checkedPage) pages.push(checkedPage.result);
+      } catch (error) {
+        failures.push({
+          url: item.url,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    return {
+      seedUrl: source,
+      pagesChecked: pages.length,
+      totalErrors: pages.reduce((sum, page) => sum + page.totalErrors, 0),
+      pages,
+      failures
+    };
+  }
+
+  /**
+   * Run a task for each queued page with at most `concurrency` browser pages open.
+   * Each worker reuses a single tab for all the URLs it handles.
+   */
+  private async runPool(items: QueuedPage[], task: (page: Page, item: QueuedPage) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const workerCount = Math.min(this.options.concurrency!, queue.length);
+
+    const workers = Array.from({ length: workerCount }, async () => {
+      const page = await this.context.newPage();
+      try {
+        let item: QueuedPage | undefined;
+        while ((item = queue.shift()) !== undefined) {
+          await task(page, item);
+        }
+      } finally {
+        await page.close();
+      }
+    });
+
+    await Promise.all(workers);
+  }
+
+  /**
+   * Navigate to a URL, check its content and collect outgoing links. Resolves
+   * with null when the page was already checked under another URL, or when
+   * other workers filled the page limit in the meantime.
+   */
+  private async checkUrl(page: Page, url: string, limit: number): Promise<{ result: CheckResult; links: string[] } | null> {
+    const response = this.options.loadPage
+      ? await this.options.loadPage(page, url)
+      : await page.goto(url, { waitUntil: 'networkidle' });
+
+    const contentType = response?.headers()['content-type'] || '';
+    if (contentType && !contentType.includes('html')) {
+      throw new Error(`Skipped non-HTML content (${contentType})`);
+    }
+
+    // Redirects may land on a page that was already checked or is still queued
+    const finalUrl = this.normalizeUrl(page.url()) || url;
+    if (this.checked.has(finalUrl)) {
+      console.log(`Skipping ${url}: already checked as ${finalUrl}`);
+      return null;
+    }
+    if (this.checked.size >= limit) return null;
+    this.checked.add(finalUrl);
+    this.visited.add(finalUrl);
+
+    // Settings can differ per URL, so each page gets its own checker
+    const checker = await this.createChecker(page.url());
+    const result = await checker.checkPage(page);
+
+    if (this.screenshots) {
+      await this.screenshots.capture(page, result);
+    }
+
+    const hrefs = await page.$$eval('a[href]', anchors =>
+      anchors.map(anchor => (anchor as HTMLAnchorElement).href)
+    );
+    const links = hrefs
+      .map(href => this.normalizeUrl(href))
+      .filter((href): href is string => href !== null);
+
+    return { result, links: Array.from(new Set(links)) };
+  }
+
+  /**
+   * Decide whether a discovered link should be added to the crawl
+   */
+  private shouldEnqueue(url: string, origin: string): boolean {
+    if (this.visited.has(url)) return false;
+    if (new URL(url).origin !== origin) return false;
+    if (SKIPPED_EXTENSIONS.test(new URL(url).pathname)) return false;
+
+    return isUrlAllowed(url, this.options.includePatterns, this.options.excludePatterns);
+  }
+
+  /**
+   * Normalize a URL for de-duplication: drop the fragment and
+   * anything that is not http(s)
+   */
+  private normalizeUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+      parsed.hash = '';
+      return parsed.toString();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import { GrammarError } from './grammarChecker';
+import { addressRanges, escapeRegExp } from './textUtils';
+
+// Picked up from the working directory when no explicit path is given
+export const DEFAULT_DICTIONARY_FILE = '.grammar-dictionary.txt';
+export const DEFAULT_BRANDS_FILE = '.grammar-brands.txt';
+
+/**
+ * Load a word list with one entry per line. Blank lines and "#" comments are ignored.
+ */
+export async function loadWordList(filePath: string): Promise<string[]> {
+  const content = await fs.promises.readFile(filePath, 'utf8');
+
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Use the explicit path if given, otherwise the default file if it exists
+ */
+export function resolveWordListPath(explicitPath: string | undefined, defaultFile: string): string | undefined {
+  if (explicitPath) return explicitPath;
+  return fs.existsSync(defaultFile) ? defaultFile : undefined;
+}
+
+/**
+ * Flag brand terms whose casing differs from the canonical spelling,
+ * e.g. "Github" or "github" when the brand is "GitHub". Names that are only
+ * part of a domain, email address or path ("github.com") are left alone.
+ */
+export function checkBrandTerms(text: string, brandTerms: string[]): GrammarError[] {
+  const errors: GrammarError[] = [];
+  const addresses = addressRanges(text);
+
+  for (const brand of brandTerms) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${brand.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`,
+      'giu'
+    );
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0] === brand) continue;
+      const start = match.index;
+      const end = start + match[0].length;
+      if (addresses.some(range => range.start <= start && range.end >= end && range.end - range.start > end - start)) continue;
+
+      errors.push({
+        message: `Brand name should be written as "${brand}"`,
+        context: match[0],
+        suggestions: [brand],
+        ruleId: 'BRAND_CASING',
+        word: match[0],
+        severity: 'error',
+        category: 'spelling',
+        confidence: 0.95,
+        position: {
+          offset: match.index,
+          length: match[0].length
+        },
+        replacements: [{ offset: 0, length: match[0].length, text: brand }]
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Accept every word flagged by the spelling rule in a JSON report (single page
+ * or site report) by appending it to the dictionary file.
+ * Returns the words that were newly added.
+ */
+export async function addWordsFromReport(reportPath: string, dictionaryPath: string): Promise<string[]> {
+  const report = JSON.parse(await fs.promises.readFile(reportPath, 'utf8'));
+  const pages: { errors?: GrammarError[] }[] = Array.isArray(report.pages) ? report.pages : [report];
+
+  const existing = fs.existsSync(dictionaryPath) ? await loadWordList(dictionaryPath) : [];
+  const known = new Set(existing);
+  const added: string[] = [];
+
+  for (const page of pages) {
+    for (const error of page.errors || []) {
+      if (error.ruleId !== 'SPELLING' || !error.word) continue;
+      if (known.has(error.word)) continue;
+
+      known.add(error.word);
+      added.push(error.word);
+    }
+  }
+
+  if (added.length > 0) {
+    const current = fs.existsSync(dictionaryPath) ? await fs.promises.readFile(dictionaryPath, 'utf8') : '';
+    const separator = current && !current.endsWith('\n') ? '\n' : '';
+    await fs.promises.writeFile(dictionaryPath, `${current}${separator}${added.join('\n')}\n`, 'utf8');
+  }
+
+  return added;
+}
@@ -0,0 +1,424 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import { ElementLocation, TextSegment, cssSelector, xpathFor } from './sourceMap';
+import { TEXT_SOURCE_KINDS, TextSource, collectTextSources } from './textSources';
+
+/**
+ * How page text is found:
+ * - readability: the article body only, as picked by Mozilla Readability
+ * - selectors: paragraphs, headings, list items and text-only divs
+ * - full: all visible text, including navigation and footers
+ */
+export type ExtractionStrategy = 'readability' | 'selectors' | 'full';
+
+export const EXTRACTION_STRATEGIES: ExtractionStrategy[] = ['readability', 'selectors', 'full'];
+
+export interface ExtractionOptions {
+  strategy?: ExtractionStrategy;
+  // Only check text inside elements matching these selectors
+  includeSelectors?: string[];
+  // Never check text inside elements matching these selectors
+  excludeSelectors?: string[];
+  // Text outside the body to collect as well, such as the title and alt text
+  textSources?: TextSource['kind'][];
+  // Leave out hidden text instead of flagging it
+  skipHidden?: boolean;
+  // Page URL, used by Readability to resolve relative links
+  url?: string;
+}
+
+/**
+ * Text from outside the page body, located in the page
+ */
+export interface ExtractedTextSource {
+  kind: TextSource['kind'];
+  text: string;
+  // Language declared on the element or an ancestor below <html>
+  lang?: string;
+  // Location of the whole text; findings narrow it down
+  location: ElementLocation;
+}
+
+/**
+ * One paragraph of the extracted text, with the language declared on its
+ * element or an ancestor below <html>
+ */
+export interface Paragraph {
+  start: number;
+  end: number;
+  lang?: string;
+}
+
+/**
+ * How the text of a page was extracted, as shown in reports
+ */
+export interface ExtractionSummary {
+  // The strategy that actually ran; readability falls back to selectors when it finds no article
+  strategy: ExtractionStrategy;
+  // Visible characters left out of the text as boilerplate or out of scope
+  droppedCharacters: number;
+  includeSelectors: string[];
+  excludeSelectors: string[];
+}
+
+export interface ExtractionResult extends ExtractionSummary {
+  text: string;
+  segments: TextSegment[];
+  paragraphs: Paragraph[];
+  sources: ExtractedTextSource[];
+  // Language of the whole page, from <html lang>
+  lang?: string;
+}
+
+// Temporary attribute linking extracted elements to the untouched copy of the page
+const SOURCE_ID_ATTRIBUTE = 'data-gc-id';
+
+// Set on elements the browser does not render, so their text can be flagged
+export const HIDDEN_ATTRIBUTE = 'data-gc-hidden';
+
+// Never text a reader sees
+const INVISIBLE_SELECTOR = 'script, style, noscript, template, svg, head, meta, link';
+
+// Text that is on the page but not shown until the user opens a tab, accordion or modal.
+// In a browser HIDDEN_ATTRIBUTE covers all of these; the rest catches the obvious cases in static HTML.
+const HIDDEN_SELECTOR = [
+  '[hidden]',
+  `[${HIDDEN_ATTRIBUTE}]`,
+  '[style*="display:none" i]',
+  '[style*="display: none" i]',
+  '[style*="visibility:hidden" i]',
+  '[style*="visibility: hidden" i]',
+  'details:not([open]) > :not(summary)'
+].join(', ');
+
+// Page furniture the selectors strategy leaves out
+const NON_CONTENT_SELECTOR = 'nav, header, footer, .cookie-banner, [role="navigation"], button, .menu';
+
+const CONTENT_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li';
+const BLOCK_CONTENT_SELECTOR = 'p, h1, h2, h3, h4, h5, h6';
+
+// Elements that start a new paragraph in the full strategy
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'td', 'th', 'tr', 'ul', 'br'
+]);
+
+/**
+ * Extract the text to check from a page's HTML, with a source map from each
+ * paragraph back to the element it was taken from
+ */
+export function extractFromHtml(html: string, options: ExtractionOptions = {}): ExtractionResult {
+  validateExtractionOptions(options);
+  const strategy = options.strategy || 'selectors';
+  const includeSelectors = options.includeSelectors || [];
+  const excludeSelectors = options.excludeSelectors || [];
+
+  const $ = cheerio.load(html);
+
+  // Number every element before anything is removed, so selectors can be
+  // computed against an untouched copy that matches the live page
+  const pristine = cheerio.load(html);
+  const originals = pristine('*').toArray() as Element[];
+  $('*').each((index, el) => {
+    $(el).attr(SOURCE_ID_ATTRIBUTE, String(index));
+  });
+
+  // Remove regions the page author opted out of checking
+  removeIgnoredRegions($);
+
+  // Text outside the body is collected before the head and attributes are stripped
+  const sources: ExtractedTextSource[] = collectTextSources($, options.textSources || [], { includeSelectors, excludeSelectors })
+    .map(source => {
+      const original = originals[Number(source.element.attribs[SOURCE_ID_ATTRIBUTE])];
+      return {
+        kind: source.kind,
+        text: source.text,
+        lang: declaredLanguage(pristine, original),
+        location: {
+          selector: cssSelector(pristine, original),
+          xpath: xpathFor(original),
+          tag: original.name,
+          attribute: source.attribute,
+          start: source.offset,
+          end: source.offset + source.text.length,
+          hidden: isHidden($, source.element) || undefined
+        }
+      };
+    });
+
+  // Anything invisible is never checked; hidden text only when asked for
+  $(INVISIBLE_SELECTOR).remove();
+  if (options.skipHidden) {
+    $(HIDDEN_SELECTOR).remove();
+  }
+
+  const visible = fullText($);
+
+  // Scope the page to the user's selectors; exclusions win over inclusions
+  excludeSelectors.forEach(selector => $(selector).remove());
+  if (includeSelectors.length > 0) {
+    scopeToSelectors($, includeSelectors);
+  }
+
+  const builder = new SegmentBuilder($, pristine, originals);
+
+  let ran: ExtractionStrategy = strategy;
+  if (strategy === 'full') {
+    // Runs are collected again so the selector scoping above applies
+    fullText($).forEach(run => builder.add(run.element, run.text, run.offset));
+  } else if (strategy === 'readability' && extractArticle($, options.url, builder)) {
+    ran = 'readability';
+  } else {
+    ran = 'selectors';
+    extractWithSelectors($, $.root(), builder);
+  }
+
+  const visibleLength = visible.reduce((sum, run) => sum + collapsedLength(run.text), 0);
+  const extractedLength = builder.texts.reduce((sum, paragraph) => sum + collapsedLength(paragraph), 0);
+
+  return {
+    text: builder.texts.join('\n\n'),
+    segments: builder.segments,
+    paragraphs: builder.paragraphs,
+    sources,
+    lang: pristine('html').attr('lang') || undefined,
+    strategy: ran,
+    droppedCharacters: Math.max(0, visibleLength - extractedLength),
+    includeSelectors,
+    excludeSelectors
+  };
+}
+
+/**
+ * Check the strategy and selectors up front, so a typo fails the run
+ * instead of every page
+ */
+export function validateExtractionOptions(options: ExtractionOptions): void {
+  if (options.strategy && !EXTRACTION_STRATEGIES.includes(options.strategy)) {
+    throw new Error(`Unknown extraction strategy "${options.strategy}"; expected one of ${EXTRACTION_STRATEGIES.join(', ')}`);
+  }
+
+  for (const kind of options.textSources || []) {
+    if (!TEXT_SOURCE_KINDS.includes(kind)) {
+      throw new Error(`Unknown text source "${kind}"; expected one of ${TEXT_SOURCE_KINDS.join(', ')}`);
+    }
+  }
+
+  const $ = cheerio.load('');
+  for (const selector of [...(options.includeSelectors || []), ...(options.excludeSelectors || [])]) {
+    try {
+      $(selector);
+    } catch (error) {
+      throw new Error(`Invalid selector "${selector}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Replace the body with the outermost elements matching the selectors, in document order
+ */
+function scopeToSelectors($: cheerio.CheerioAPI, selectors: string[]): void {
+  const matches = $(selectors.join(', ')).toArray() as Element[];
+  const outermost = matches.filter(el => !matches.some(other => other !== el && $(other).find(el).length > 0));
+
+  $('body').empty().append(outermost);
+}
+
+/**
+ * The lang attribute of an element or its closest ancestor below <html>. The
+ * page-wide language is often a template default, so it is kept separately.
+ */
+function declaredLanguage(pristine: cheerio.CheerioAPI, element: Element): string | undefined {
+  return pristine(element).closest('[lang]:not(html)').attr('lang') || undefined;
+}
+
+/**
+ * Remove elements marked with `data-grammar-ignore` or the `grammar-ignore` class,
+ * and the element following a `<!-- grammar-ignore-next -->` comment
+ */
+function removeIgnoredRegions($: cheerio.CheerioAPI): void {
+  $('*').contents().each((_, node) => {
+    if (node.type !== 'comment' || node.data.trim() !== 'grammar-ignore-next') return;
+
+    // Skip whitespace and other comments to find the next element
+    let next = node.nextSibling;
+    while (next && next.type !== 'tag') {
+      next = next.nextSibling;
+    }
+    if (next) $(next).remove();
+  });
+
+  $('[data-grammar-ignore], .grammar-ignore').remove();
+}
+
+/**
+ * Collects paragraphs and their segments, keeping track of offsets in the joined text
+ */
+class SegmentBuilder {
+  texts: string[] = [];
+  paragraphs: Paragraph[] = [];
+  segments: TextSegment[] = [];
+  private offset = 0;
+
+  constructor(private $: cheerio.CheerioAPI, private pristine: cheerio.CheerioAPI, private originals: Element[]) {}
+
+  /**
+   * Add the text found at `elementOffset` in an element
+   */
+  add(element: Element, raw: string, elementOffset = 0, minLength = 0): void {
+    const text = raw.trim();
+    if (!text || text.length <= minLength) return;
+
+    // Wrappers added by Readability have no source ID; they are mapped to the
+    // closest original ancestor instead, as long as the text can be found in it
+    let source: Element | null = element;
+    while (source && source.attribs[SOURCE_ID_ATTRIBUTE] === undefined) {
+      source = source.parent && source.parent.type === 'tag' ? source.parent as Element : null;
+    }
+    const original = source ? this.originals[Number(source.attribs[SOURCE_ID_ATTRIBUTE])] : undefined;
+    const textOffset = source === element
+      ? elementOffset + raw.length - raw.trimStart().length
+      : original ? nodeText(original).indexOf(text) : -1;
+
+    if (original && textOffset >= 0) {
+      this.segments.push({
+        start: this.offset,
+        end: this.offset + text.length,
+        selector: cssSelector(this.pristine, original),
+        xpath: xpathFor(original),
+        tag: original.name,
+        elementOffset: textOffset,
+        hidden: isHidden(this.$, element) || undefined
+      });
+    }
+
+    this.paragraphs.push({
+      start: this.offset,
+      end: this.offset + text.length,
+      lang: original ? declaredLanguage(this.pristine, original) : undefined
+    });
+
+    this.texts.push(text);
+    // Paragraphs are joined with double newlines
+    this.offset += text.length + 2;
+  }
+}
+
+/**
+ * Paragraphs, headings and list items, then divs that hold text directly.
+ * Elements nested in another extracted element are skipped so no text is counted twice.
+ */
+function extractWithSelectors($: cheerio.CheerioAPI, root: cheerio.Cheerio<AnyNode>, builder: SegmentBuilder): void {
+  // Remove non-content elements
+  root.find(NON_CONTENT_SELECTOR).remove();
+
+  const nestedInContent = (el: Element) => $(el).parents(CONTENT_SELECTOR).length > 0;
+  // List items made of paragraphs are extracted paragraph by paragraph
+  const nestedInBlock = (el: Element) => $(el).parents(BLOCK_CONTENT_SELECTOR).length > 0;
+
+  // Extract paragraphs
+  root.find('p').each((_, el) => {
+    if (!nestedInBlock(el)) builder.add(el, $(el).text());
+  });
+
+  // Extract headings
+  root.find('h1, h2, h3, h4, h5, h6').each((_, el) => {
+    if (!nestedInBlock(el)) builder.add(el, $(el).text());
+  });
+
+  // Extract list items
+  root.find('li').each((_, el) => {
+    if (nestedInContent(el) || $(el).find(BLOCK_CONTENT_SELECTOR).length > 0) return;
+    builder.add(el, $(el).text());
+  });
+
+  // Extract div text that might contain content
+  root.find('div').each((_, el) => {
+    // Skip if it has children that are already processed, or is inside one
+    if ($(el).find(`${CONTENT_SELECTOR}, div`).length > 0 || nestedInContent(el)) return;
+
+    builder.add(el, $(el).text(), 0, 20);
+  });
+}
+
+/**
+ * Run Readability over the page and sweep the article it finds with the
+ * selectors strategy. Returns false if Readability found no article.
+ */
+function extractArticle($: cheerio.CheerioAPI, url: string | undefined, builder: SegmentBuilder): boolean {
+  const dom = new JSDOM($.html(), url ? { url } : {});
+  const article = new Readability(dom.window.document).parse();
+  dom.window.close();
+  if (!article || !article.content) return false;
+
+  // Readability keeps data attributes, so the source IDs survive
+  const $article = cheerio.load(article.content);
+  extractWithSelectors($article, $article.root(), builder);
+  return builder.texts.length > 0;
+}
+
+interface TextRun {
+  element: Element;
+  text: string;
+  // Where the run starts in the element's text
+  offset: number;
+}
+
+/**
+ * All visible text as runs of inline content, each attributed to its closest block element
+ */
+function fullText($: cheerio.CheerioAPI): TextRun[] {
+  const runs: TextRun[] = [];
+  const body = $('body').get(0);
+  if (body) visitBlock(body, runs);
+  return runs;
+}
+
+/**
+ * Walk a block element, splitting its text at nested blocks. Returns the
+ * length of the element's text so the parent can keep its offsets right.
+ */
+function visitBlock(block: Element, runs: TextRun[]): number {
+  let position = 0;
+  let run: TextRun = { element: block, text: '', offset: 0 };
+
+  const flush = () => {
+    if (run.text.trim()) runs.push(run);
+    run = { element: block, text: '', offset: position };
+  };
+
+  const visit = (node: AnyNode) => {
+    if (node.type === 'text') {
+      run.text += node.data;
+      position += node.data.length;
+    } else if (node.type === 'tag') {
+      if (BLOCK_TAGS.has(node.name)) {
+        flush();
+        position += visitBlock(node, runs);
+        run.offset = position;
+      } else {
+        node.children.forEach(visit);
+      }
+    }
+  };
+
+  block.children.forEach(visit);
+  flush();
+  return position;
+}
+
+function isHidden($: cheerio.CheerioAPI, element: Element): boolean {
+  return $(element).closest(HIDDEN_SELECTOR).length > 0;
+}
+
+function nodeText(node: AnyNode): string {
+  if (node.type === 'text') return node.data;
+  return 'children' in node ? node.children.map(nodeText).join('') : '';
+}
+
+function collapsedLength(text: string): number {
+  return text.replace(/\s+/g, ' ').trim().length;
+}
@@ -0,0 +1,65 @@
+import { GrammarError } from './grammarChecker';
+import { CATEGORIES, Category, SEVERITIES, Severity } from './rules/types';
+
+/**
+ * Which findings make it into a report
+ */
+export interface FindingFilters {
+  disabledRules?: string[];
+  // Leave out findings less severe than this, e.g. "warning" drops info
+  minSeverity?: Severity;
+  // Only keep findings in these categories
+  categories?: Category[];
+}
+
+/**
+ * Throw on an unknown severity or category, so a typo in a config file
+ * doesn't silently hide every finding
+ */
+export function validateFindingFilters(filters: FindingFilters): void {
+  if (filters.minSeverity !== undefined && !SEVERITIES.includes(filters.minSeverity)) {
+    throw new Error(`Unknown severity "${filters.minSeverity}"; expected one of ${SEVERITIES.join(', ')}`);
+  }
+  for (const category of filters.categories || []) {
+    if (!CATEGORIES.includes(category)) {
+      throw new Error(`Unknown category "${category}"; expected one of ${CATEGORIES.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Drop findings from disabled rules, below the minimum severity or outside the chosen categories
+ */
+export function filterFindings(errors: GrammarError[], filters: FindingFilters): GrammarError[] {
+  const disabledRules = new Set(filters.disabledRules || []);
+  const maxRank = SEVERITIES.indexOf(filters.minSeverity || 'info');
+  const categories = filters.categories && filters.categories.length > 0 ? new Set(filters.categories) : null;
+
+  return errors.filter(error =>
+    !disabledRules.has(error.ruleId) &&
+    SEVERITIES.indexOf(error.severity) <= maxRank &&
+    (!categories || categories.has(error.category))
+  );
+}
+
+export interface FindingSummary {
+  bySeverity: Record<Severity, number>;
+  byCategory: Record<Category, number>;
+}
+
+/**
+ * Count findings by severity and by category
+ */
+export function summarizeFindings(errors: GrammarError[]): FindingSummary {
+  const summary: FindingSummary = {
+    bySeverity: Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<Severity, number>,
+    byCategory: Object.fromEntries(CATEGORIES.map(category => [category, 0])) as Record<Category, number>
+  };
+
+  for (const error of errors) {
+    summary.bySeverity[error.severity]++;
+    summary.byCategory[error.category]++;
+  }
+
+  return summary;
+}
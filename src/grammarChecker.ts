@@ -1,17 +1,80 @@
 import { Page } from '@playwright/test';
-import * as cheerio from 'cheerio';
-import nlp from 'compromise';
-import { JSDOM } from 'jsdom';
+import { SpellChecker } from './spellChecker';
+import { checkBrandTerms } from './customDictionary';
+import { LanguageToolClient } from './languageTool';
+import { RuleRegistry } from './rules/registry';
+import { Category, DEFAULT_CONFIDENCE, RuleContext, Severity } from './rules/types';
+import { ElementLocation, locateRange } from './sourceMap';
+import { markHiddenElements } from './pageLoader';
+import { TEXT_SOURCE_KINDS, TEXT_SOURCE_PROFILES, TextSource, TextSourceKind } from './textSources';
+import { primaryLanguage, resolveLanguage } from './languageDetection';
+import { ReadabilityMetrics, computeReadability } from './readabilityMetrics';
+import { TermLists, checkInclusiveTerms, defaultTermLists, termListWords } from './termLists';
+import { VariantUsage, findVariantUsages, inconsistentVariantErrors } from './consistency';
+import { filterFindings, validateFindingFilters } from './findingFilters';
+import { FixSummary } from './autoFix';
+import { SentenceAnalyzer } from './sentenceAnalyzer';
+import {
+  ExtractionOptions,
+  ExtractionResult,
+  Paragraph,
+  ExtractionStrategy,
+  ExtractionSummary,
+  extractFromHtml,
+  validateExtractionOptions
+} from './extraction';
+
+/**
+ * A machine-applicable edit for a finding. The offset is relative to the
+ * finding's position, so it holds wherever the flagged text ends up.
+ */
+export interface Replacement {
+  offset: number;
+  length: number;
+  text: string;
+}
 
 export interface GrammarError {
   message: string;
   context: string;
   suggestions: string[];
   ruleId: string;
+  word?: string; // The flagged word, for word-level rules such as SPELLING
+  severity: Severity;
+  category: Category;
+  // How likely the finding is a real problem, from 0 to 1
+  confidence: number;
   position: {
     offset: number;
     length: number;
   };
+  // Where the text came from, e.g. the page body or image alt text
+  source?: TextSourceKind;
+  // The element the finding is in, when it could be mapped back to the page
+  location?: ElementLocation;
+  // The text was on the page but not shown, e.g. in a closed accordion
+  hidden?: boolean;
+  // Annotated screenshot of the element, when screenshots are enabled
+  screenshot?: string;
+  // Language the text was checked in, from its lang attribute or detection
+  language?: string;
+  // 1-based position in the source file, when checking local files
+  line?: number;
+  column?: number;
+  // Edits that fix the finding, applied together by --fix
+  replacements?: Replacement[];
+}
+
+/**
+ * Text that was left unchecked because no rules, dictionary or LanguageTool
+ * server cover its language
+ */
+export interface UncheckedText {
+  language: string;
+  source: TextSourceKind;
+  excerpt: string;
+  characters: number;
+  location?: ElementLocation;
 }
 
 export interface CheckResult {
@@ -19,376 +82,421 @@ export interface CheckResult {
   totalErrors: number;
   errors: GrammarError[];
   rawText: string;
+  // Findings hidden because they are in the suppression baseline
+  suppressedErrors?: number;
+  // How the text was extracted from the page
+  extraction?: ExtractionSummary;
+  // Text in languages that could not be checked
+  unchecked?: UncheckedText[];
+  // Reading ease and grade level of the English body text, when style checks are on
+  readability?: ReadabilityMetrics;
+  // Spelling variants used on the page, compared across pages after a crawl
+  variantUsages?: VariantUsage[];
+  // What --fix changed in a local file, and the fixes it had to leave alone
+  fixes?: FixSummary;
 }
 
 export class GrammarChecker {
   private processedFragments: Set<string>; // Track already processed fragments
+  private sentenceAnalyzer: SentenceAnalyzer;
+  private supportedLanguages = new Map<string, Promise<boolean>>();
 
   constructor(private options: {
     language?: string;
     motherTongue?: string;
     disabledRules?: string[];
     detectIncomplete?: boolean;
+    checkSpelling?: boolean;
+    dictionaryDir?: string;
+    customWords?: string[];
+    brandTerms?: string[];
+    languageToolUrl?: string;
+    ruleRegistry?: RuleRegistry;
+    rulesDirs?: string[];
+    rulesFiles?: string[];
+    extractionStrategy?: ExtractionStrategy;
+    includeSelectors?: string[];
+    excludeSelectors?: string[];
+    // Text outside the page body to check (default: all kinds)
+    textSources?: TextSource['kind'][];
+    // Leave out text the page does not show instead of flagging it
+    skipHidden?: boolean;
+    // Detect the language of each paragraph instead of trusting lang attributes alone
+    detectLanguage?: boolean;
+    // Run the style rules (passive voice, long sentences, weasel words, ...) and compute readability
+    checkStyle?: boolean;
+    // Word count above which a sentence is reported as too long
+    maxSentenceWords?: number;
+    // Banned terms and spelling variants to keep consistent (default: the built-in lists)
+    termLists?: TermLists;
+    // Heading, UI-text and incomplete-sentence heuristics (default: the built-in patterns)
+    sentenceAnalyzer?: SentenceAnalyzer;
+    // Leave out findings less severe than this
+    minSeverity?: Severity;
+    // Only report findings in these categories (default: all)
+    categories?: Category[];
   } = {}) {
     this.options.language = this.options.language || 'en-US';
     this.options.detectIncomplete = this.options.detectIncomplete !== false;
+    this.options.checkSpelling = this.options.checkSpelling !== false;
+    this.options.textSources = this.options.textSources ?? TEXT_SOURCE_KINDS;
+    this.options.detectLanguage = this.options.detectLanguage !== false;
+    this.options.checkStyle = this.options.checkStyle !== false;
+    this.options.maxSentenceWords = this.options.maxSentenceWords ?? 30;
+    this.options.termLists = this.options.termLists ?? defaultTermLists();
+    
+    validateExtractionOptions({
+      strategy: this.options.extractionStrategy,
+      includeSelectors: this.options.includeSelectors,
+      excludeSelectors: this.options.excludeSelectors,
+      textSources: this.options.textSources
+    });
+    validateFindingFilters(this.options);
     this.processedFragments = new Set<string>();
+    this.sentenceAnalyzer = this.options.sentenceAnalyzer ?? new SentenceAnalyzer();
   }
   
   /**
    * Extract readable content from a webpage using Cheerio and Readability
    */
   async extractText(page: Page): Promise<string> {
-    // Get the HTML content
+    return (await this.extractContent(page)).text;
+  }
+  
+  /**
+   * Extract readable content along with a source map from each paragraph
+   * back to the element it was taken from
+   */
+  async extractContent(page: Page): Promise<ExtractionResult> {
+    // Hidden elements are marked in the live page so their text can be flagged
+    const unmarkHidden = await markHiddenElements(page);
     const html = await page.content();
+    await unmarkHidden();
     
-    // Use Cheerio to extract text content
-    const $ = cheerio.load(html);
-    
-    // Remove non-content elements
-    $('script, style, noscript, svg, head, meta, link, nav, header, footer, .cookie-banner, [role="navigation"], button, .menu').remove();
-    
-    // Extract paragraphs and other text elements
-    const paragraphs: string[] = [];
-    
-    // Extract paragraphs
-    $('p').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) paragraphs.push(text);
-    });
-    
-    // Extract headings
-    $('h1, h2, h3, h4, h5, h6').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) paragraphs.push(text);
-    });
-    
-    // Extract list items
-    $('li').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) paragraphs.push(text);
-    });
-    
-    // Extract div text that might contain content
-    $('div').each((_, el) => {
-      // Skip if it has children that are already processed
-      if ($(el).find('p, h1, h2, h3, h4, h5, h6, li').length > 0) return;
-      
-      const text = $(el).text().trim();
-      if (text && text.length > 20) paragraphs.push(text);
-    });
-    
-    // Join paragraphs with double newlines
-    return paragraphs.join('\n\n');
+    return extractFromHtml(html, this.extractionOptions(page.url()));
+  }
+  
+  private extractionOptions(url: string): ExtractionOptions {
+    return {
+      strategy: this.options.extractionStrategy,
+      includeSelectors: this.options.includeSelectors,
+      excludeSelectors: this.options.excludeSelectors,
+      textSources: this.options.textSources,
+      skipHidden: this.options.skipHidden,
+      url
+    };
   }
   
   /**
    * Check a webpage for grammar and spelling errors
    */
   async checkPage(page: Page): Promise<CheckResult> {
-    const url = page.url();
-    const text = await this.extractText(page);
-    
-    // Main error detection
-    const errors: GrammarError[] = [];
-    
-    // Use compromise for sentence analysis
-    const nlpErrors = this.detectIncompleteWithCompromise(text);
-    errors.push(...nlpErrors);
-    
-    // Add regex checks for specific patterns
-    const regexErrors = this.checkRegexPatterns(text);
-    errors.push(...regexErrors);
-    
-    // Deduplicate errors
-    const uniqueErrors = this.deduplicateErrors(errors);
-    
-    return {
-      url,
-      totalErrors: uniqueErrors.length,
-      errors: uniqueErrors,
-      rawText: text
-    };
+    return this.checkContent(page.url(), await this.extractContent(page));
   }
   
   /**
-   * Deduplicate errors to avoid repeated reports for the same issue
+   * Check the HTML of a page without a browser, e.g. a static file. Only
+   * text hidden in the markup itself can be told apart from shown text.
    */
-  private deduplicateErrors(errors: GrammarError[]): GrammarError[] {
-    const uniqueErrors: GrammarError[] = [];
-    const seenContexts = new Set<string>();
-    
-    for (const error of errors) {
-      // Create a key combining the context and rule
-      const key = `${error.context.trim()}|${error.ruleId}`;
-      
-      if (!seenContexts.has(key)) {
-        seenContexts.add(key);
-        uniqueErrors.push(error);
-      }
-    }
-    
-    return uniqueErrors;
+  async checkHtml(html: string, url: string): Promise<CheckResult> {
+    return this.checkContent(url, extractFromHtml(html, this.extractionOptions(url)));
   }
   
   /**
-   * Enhanced method to detect headings, titles, and section markers
-   * that should be exempt from grammar checking
+   * Check plain text, such as the prose of a Markdown file. Paragraphs are
+   * ranges of the text; by default it is split at blank lines.
    */
-  private isHeadingOrTitle(text: string): boolean {
-    const trimmedText = text.trim();
-    
-    // Skip if empty
-    if (!trimmedText) return false;
-    
-    // Numbered or lettered section headings
-    // Examples: "1. Introduction", "A. Information We Collect"
-    if (/^([A-Z]|[0-9]+)\.(\s+[A-Z][a-zA-Z0-9\s]*)+$/.test(trimmedText)) {
-      return true;
-    }
-    
-    // Roman numeral headings
-    // Examples: "I. Introduction", "IV. Terms of Service"
-    if (/^(I|II|III|IV|V|VI|VII|VIII|IX|X|XI|XII)\.(\s+[A-Z][a-zA-Z0-9\s]*)+$/.test(trimmedText)) {
-      return true;
-    }
-    
-    // Title case phrases (indicative of headings)
-    // Only if they're relatively short and don't look like sentences
-    if (/^([A-Z][a-z0-9]*\s+){1,7}[A-Z][a-z0-9]*$/.test(trimmedText) && 
-        trimmedText.length < 60 && 
-        !trimmedText.includes(',')) {
-      return true;
+  async checkPlainText(text: string, url: string, options: { paragraphs?: Paragraph[]; lang?: string } = {}): Promise<CheckResult> {
+    const paragraphs = options.paragraphs || this.sentenceAnalyzer.splitParagraphs(text)
+      .map(paragraph => ({ start: paragraph.offset, end: paragraph.offset + paragraph.text.length }));
+    const { extraction, ...result } = await this.checkContent(url, {
+      text,
+      segments: [],
+      paragraphs,
+      sources: [],
+      lang: options.lang,
+      strategy: 'full',
+      droppedCharacters: 0,
+      includeSelectors: [],
+      excludeSelectors: []
+    });
+    return result;
+  }
+  
+  /**
+   * Check extracted text: each paragraph in its language, then the text outside the body
+   */
+  private async checkContent(url: string, content: ExtractionResult): Promise<CheckResult> {
+    const { text, segments, paragraphs, sources, lang, ...extraction } = content;
+    const errors: GrammarError[] = [];
+    const unchecked: UncheckedText[] = [];
+    const variantUsages: VariantUsage[] = [];
+    // Reading scores are only meaningful for English, and cover every English variant on the page
+    const englishParagraphs: Paragraph[] = [];
+    
+    // Route each paragraph to the rules for its language
+    const groups = new Map<string, Paragraph[]>();
+    for (const paragraph of paragraphs) {
+      const language = this.languageOf(text.slice(paragraph.start, paragraph.end), paragraph.lang, lang);
+      groups.set(language, [...(groups.get(language) || []), paragraph]);
     }
     
-    // Common heading patterns for legal documents
-    // Example: "Collection of Personal Information"
-    if (/^([A-Z][a-z]+\s+){0,2}of(\s+[A-Z][a-z]+){1,3}$/.test(trimmedText)) {
-      return true;
+    for (const [language, group] of groups) {
+      if (!await this.isLanguageSupported(language)) {
+        for (const paragraph of group) {
+          unchecked.push(this.uncheckedText(text.slice(paragraph.start, paragraph.end), language, 'body',
+            locateRange(segments, paragraph.start, paragraph.end - paragraph.start)));
+        }
+        continue;
+      }
+      
+      // Paragraphs in one language are checked together, joined the same way as
+      // the page text; offsets are then mapped back to the page text
+      const starts: number[] = [];
+      let joinedLength = 0;
+      for (const paragraph of group) {
+        starts.push(joinedLength);
+        joinedLength += paragraph.end - paragraph.start + 2;
+      }
+      const joined = group.map(paragraph => text.slice(paragraph.start, paragraph.end)).join('\n\n');
+      
+      if (primaryLanguage(language) === 'en') {
+        englishParagraphs.push(...group);
+      }
+      
+      const toPageOffset = (offset: number) => {
+        let index = starts.length - 1;
+        while (index > 0 && starts[index] > offset) index--;
+        return group[index].start + offset - starts[index];
+      };
+      
+      const findings = [
+        ...await this.checkText(joined, url, 'body', language),
+        ...this.variantUsagesIn(joined, 'body', language)
+      ];
+      for (const finding of findings) {
+        finding.position = { ...finding.position, offset: toPageOffset(finding.position.offset) };
+        // Point each finding at the element it came from
+        finding.location = locateRange(segments, finding.position.offset, finding.position.length);
+      }
+      errors.push(...findings.filter((finding): finding is GrammarError => !('variant' in finding)));
+      variantUsages.push(...findings.filter((finding): finding is VariantUsage => 'variant' in finding));
     }
     
-    // Phrases starting with "The Right to"
-    // Example: "The Right to Deletion"
-    if (/^The\s+Right\s+to\s+[A-Z][a-zA-Z\s]*$/.test(trimmedText)) {
-      return true;
+    const readability = this.options.checkStyle && englishParagraphs.length > 0
+      ? computeReadability(englishParagraphs
+        .sort((a, b) => a.start - b.start)
+        .map(paragraph => text.slice(paragraph.start, paragraph.end))
+        .join('\n\n'), this.sentenceAnalyzer) || undefined
+      : undefined;
+    
+    // Titles, alt text, labels etc. are checked one by one with their own rule profile
+    for (const source of sources) {
+      const language = this.languageOf(source.text, source.lang, lang);
+      if (!await this.isLanguageSupported(language)) {
+        unchecked.push(this.uncheckedText(source.text, language, source.kind, source.location));
+        continue;
+      }
+      
+      const findings = [
+        ...await this.checkText(source.text, url, source.kind, language),
+        ...this.variantUsagesIn(source.text, source.kind, language)
+      ];
+      for (const finding of findings) {
+        finding.location = {
+          ...source.location,
+          start: source.location.start + finding.position.offset,
+          end: Math.min(source.location.start + finding.position.offset + finding.position.length, source.location.end)
+        };
+      }
+      errors.push(...findings.filter((finding): finding is GrammarError => !('variant' in finding)));
+      variantUsages.push(...findings.filter((finding): finding is VariantUsage => 'variant' in finding));
     }
     
-    // Phrases starting with "How to" or "How We"
-    // Example: "How to Exercise Access and Deletion Rights"
-    if (/^How\s+(to|We)\s+[A-Z][a-zA-Z\s]*$/.test(trimmedText)) {
-      return true;
-    }
+    // Spelling variants are compared across the whole page, titles and labels included
+    errors.push(...inconsistentVariantErrors(variantUsages));
     
-    // Document title followed by organization name in parentheses
-    if (/^[A-Z][a-z]+(\s+[A-Z][a-z]+)*:.*\([""][^)]+[""]\)$/.test(trimmedText)) {
-      return true;
+    for (const error of errors) {
+      if (error.location?.hidden) error.hidden = true;
     }
     
-    // Common legal document section titles
-    const commonTitles = [
-      'introduction', 'purpose', 'scope', 'definitions', 
-      'privacy policy', 'terms of service', 'disclaimer',
-      'collection of information', 'use of information',
-      'information sharing', 'data protection', 'security measures',
-      'your rights', 'contact us', 'effective date'
-    ];
+    // Drop disabled rules and filtered severities and categories, then deduplicate errors
+    const uniqueErrors = this.deduplicateErrors(filterFindings(errors, this.options));
     
-    for (const title of commonTitles) {
-      if (trimmedText.toLowerCase() === title) {
-        return true;
-      }
-    }
-    
-    return false;
+    return {
+      url,
+      totalErrors: uniqueErrors.length,
+      errors: uniqueErrors,
+      rawText: text,
+      extraction,
+      unchecked,
+      readability,
+      variantUsages
+    };
   }
   
   /**
-   * Improved method to detect document sections that should be skipped
+   * The language to check a piece of text in
    */
-  private shouldSkipText(text: string): boolean {
-    const trimmedText = text.trim();
-    
-    // Skip if empty
-    if (!trimmedText) return true;
-    
-    // Skip if it's a heading or title
-    if (this.isHeadingOrTitle(trimmedText)) {
-      return true;
-    }
-    
-    // Skip headings that end with colons (they're intentionally not full sentences)
-    if (/^[A-Z][A-Za-z\s]{3,}:$/.test(trimmedText)) {
-      return true;
+  private languageOf(text: string, element: string | undefined, page: string | undefined): string {
+    return resolveLanguage(text, { element, page, configured: this.options.language! }, this.options.detectLanguage);
+  }
+  
+  /**
+   * Whether anything can check text in a language: a LanguageTool server, a
+   * Hunspell dictionary or registered rules written for it. Language-neutral
+   * rules alone do not count. The configured language is always checked.
+   */
+  private isLanguageSupported(language: string): Promise<boolean> {
+    if (!this.supportedLanguages.has(language)) {
+      this.supportedLanguages.set(language, (async () => {
+        if (primaryLanguage(language) === primaryLanguage(this.options.language!)) return true;
+        if (this.options.languageToolUrl) return true;
+        if (this.options.checkSpelling && await this.loadSpellChecker(language)) return true;
+        
+        const registry = await this.getRuleRegistry();
+        return registry.getRulesFor(language).some(rule => !rule.languages.includes('*'));
+      })());
     }
+    return this.supportedLanguages.get(language)!;
+  }
+  
+  /**
+   * British and American spellings used in English text. Other languages
+   * share many of the words ("Center", "Humor") without them being variants.
+   */
+  private variantUsagesIn(text: string, source: TextSourceKind, language: string): VariantUsage[] {
+    if (primaryLanguage(language) !== 'en') return [];
+    return findVariantUsages(text, this.options.termLists!.variants, source);
+  }
+  
+  private uncheckedText(text: string, language: string, source: TextSourceKind, location?: ElementLocation): UncheckedText {
+    return {
+      language,
+      source,
+      excerpt: text.length > 80 ? `${text.slice(0, 77)}...` : text,
+      characters: text.length,
+      location
+    };
+  }
+  
+  /**
+   * Run every check on one piece of text. Offsets in the findings are
+   * relative to that text.
+   */
+  private async checkText(text: string, url: string, source: TextSourceKind, language = this.options.language!): Promise<GrammarError[]> {
+    const profile = TEXT_SOURCE_PROFILES[source];
+    const errors: GrammarError[] = [];
     
-    // Skip list introductions ending with colons
-    if (/^[A-Za-z\s]+(include|are|following|include but are not limited to):$/.test(trimmedText)) {
-      return true;
-    }
+    // Run the registered rules for the text's language
+    const ruleErrors = await this.runRules(text, url, source, language);
+    errors.push(...ruleErrors);
     
-    // Skip bulleted or numbered list items that are intentionally fragments
-    if (/^(\d+\.|\*|\-|\•)\s+[A-Za-z]/.test(trimmedText) && !trimmedText.includes('.', 2)) {
-      return true;
+    // Check spelling against the Hunspell dictionary for the text's language
+    if (this.options.checkSpelling) {
+      const spellChecker = await this.loadSpellChecker(language);
+      if (spellChecker) {
+        errors.push(...spellChecker.check(text));
+      }
     }
     
-    // Skip navigation, buttons, and common UI elements
-    const uiPatterns = [
-      /^(Home|About|Contact|Login|Signup|Videos|Menu)$/i,
-      /^(Accept|Decline|Submit|Cancel|Next|Previous)$/i,
-      /^(Terms and Conditions|Privacy Policy)$/i,
-      /^(Skip to content|Log In|Sign Up)$/i
-    ];
-    
-    if (uiPatterns.some(pattern => pattern.test(trimmedText))) {
-      return true;
+    // Brand terms must match their canonical casing exactly
+    if (this.options.brandTerms && this.options.brandTerms.length > 0) {
+      errors.push(...checkBrandTerms(text, this.options.brandTerms));
     }
     
-    // Skip cookie consent banners
-    if (/cookie|consent|accept|decline|privacy/i.test(trimmedText) && 
-        /website|experience|browse|uses/i.test(trimmedText)) {
-      return true;
+    // Terms the project bans, e.g. "whitelist" or "manpower"; the lists are English
+    if (primaryLanguage(language) === 'en') {
+      errors.push(...checkInclusiveTerms(text, this.options.termLists!.inclusive));
     }
     
-    // Skip version, date, and metadata lines
-    if (/^Version\s+Date:|^Last\s+Updated:|^Effective\s+Date:/i.test(trimmedText)) {
-      return true;
+    // Send the text to a LanguageTool server when one is configured
+    if (this.options.languageToolUrl && profile.languageTool) {
+      const languageTool = new LanguageToolClient({
+        baseUrl: this.options.languageToolUrl,
+        language,
+        motherTongue: this.options.motherTongue,
+        disabledRules: [...(this.options.disabledRules || []), ...profile.disabledRules]
+      });
+      errors.push(...await languageTool.check(text));
     }
     
-    return false;
+    return errors.map(error => ({ ...error, source, language }));
   }
   
   /**
-   * Improved detection for prepositions in headings vs. actual grammar errors
+   * Load the Hunspell dictionary for a language. A missing dictionary is an
+   * error for the configured language and means "no spelling check" otherwise.
    */
-  private isPrepositionInHeading(text: string): boolean {
-    // Check if this looks like a heading with a preposition
-    
-    // Common heading patterns with prepositions
-    const headingWithPrepositionPatterns = [
-      // "X of Y" pattern - e.g., "Collection of Personal Information"
-      /^([A-Z][a-z]+\s+){0,2}(of|to|for|with|by|from|in|on|at|about)(\s+[A-Z][a-z]+){1,3}$/,
-      
-      // "The X of/to Y" pattern - e.g., "The Right to Deletion"
-      /^The\s+[A-Z][a-z]+\s+(of|to|for|with|by|from|in|on|at|about)\s+[A-Z][a-z]+/,
-      
-      // "How to X" pattern - e.g., "How to Exercise Access"
-      /^How\s+to\s+[A-Z][a-z]+/
-    ];
-    
-    return headingWithPrepositionPatterns.some(pattern => pattern.test(text.trim()));
+  private async loadSpellChecker(language: string): Promise<SpellChecker | null> {
+    try {
+      return await SpellChecker.load({
+        language,
+        dictionaryDir: this.options.dictionaryDir,
+        // Brand words are left to the casing check, in any casing, and the
+        // alternatives the term lists suggest are never misspellings
+        customWords: [
+          ...(this.options.customWords || []),
+          ...(this.options.brandTerms || []).flatMap(brand => brand.toLowerCase().split(/\s+/)),
+          ...termListWords(this.options.termLists!)
+        ]
+      });
+    } catch (error) {
+      if (primaryLanguage(language) === primaryLanguage(this.options.language!)) throw error;
+      return null;
+    }
   }
   
-  /**
-   * Check text for specific regex patterns that indicate grammar issues,
-   * with improved heading detection
-   */
-  private checkRegexPatterns(text: string): GrammarError[] {
-    const errors: GrammarError[] = [];
-    
-    // Patterns to check
-    const patterns = [
-      // Incomplete sentences ending with common words that should have objects
-      {
-        regex: /\b(please note|it is important to note).*\b(do not|does not|will not|cannot)\b.*\b(recognize|respond|reply|acknowledge)\b[^.!?]*$/gim,
-        message: 'Incomplete sentence missing object after transitive verb',
-        ruleId: 'INCOMPLETE_TRANSITIVE_VERB',
-        suggestion: 'Complete the sentence by specifying what is recognized or responded to'
-      },
-      // Sentences ending with prepositions (but not headings)
-      {
-        regex: /\b[A-Z][^.!?]{10,}(to|for|with|by|from|in|on|at|about|upon)[^.!?]*$/gm,
-        message: 'Sentence ends with a preposition',
-        ruleId: 'HANGING_PREPOSITION',
-        suggestion: 'Complete the prepositional phrase with an object'
-      },
-      // Sentences with "browser-initiated" without proper ending
-      {
-        regex: /[^.!?]*\bbrowser-initiated\b[^.!?]*$/gm,
-        message: 'Incomplete sentence with "browser-initiated"',
-        ruleId: 'INCOMPLETE_BROWSER_INITIATED',
-        suggestion: 'Complete the sentence with what happens with browser-initiated requests/actions'
-      }
-    ];
-    
-    // Check each pattern
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.regex.exec(text)) !== null) {
-        const context = match[0].trim();
-        
-        // Skip if this fragment has already been processed
-        if (this.processedFragments.has(context)) continue;
-        this.processedFragments.add(context);
-        
-        // Skip if it's a heading or title
-        if (this.isHeadingOrTitle(context)) continue;
-        
-        // For hanging preposition check, skip if it's a common heading pattern
-        if (pattern.ruleId === 'HANGING_PREPOSITION' && this.isPrepositionInHeading(context)) {
-          continue;
-        }
-        
-        errors.push({
-          message: pattern.message,
-          context,
-          suggestions: [pattern.suggestion, 'Add proper punctuation'],
-          ruleId: pattern.ruleId,
-          position: {
-            offset: match.index,
-            length: match[0].length
-          }
-        });
-      }
+  private async getRuleRegistry(): Promise<RuleRegistry> {
+    if (!this.options.ruleRegistry) {
+      this.options.ruleRegistry = await RuleRegistry.create({
+        ruleDirs: this.options.rulesDirs,
+        rulesFiles: this.options.rulesFiles
+      });
     }
-    
-    return errors;
+    return this.options.ruleRegistry;
   }
   
   /**
-   * Use compromise NLP to detect incomplete sentences,
-   * with improved heading detection
+   * Run every registered rule that applies to a language
    */
-  private detectIncompleteWithCompromise(text: string): GrammarError[] {
+  private async runRules(text: string, url: string, source: TextSourceKind, language: string): Promise<GrammarError[]> {
+    const registry = await this.getRuleRegistry();
+    
+    const disabledRules = [...(this.options.disabledRules || []), ...TEXT_SOURCE_PROFILES[source].disabledRules];
     if (!this.options.detectIncomplete) {
-      return [];
+      disabledRules.push('POSSIBLE_INCOMPLETE_SENTENCE', 'MISSING_END_PUNCTUATION');
     }
     
-    const errors: GrammarError[] = [];
-    const doc = nlp(text);
-    
-    // Get all sentences
-    const sentences = doc.sentences().out('array');
+    const context: RuleContext = {
+      url,
+      language,
+      textSource: source,
+      maxSentenceWords: this.options.maxSentenceWords!,
+      isHeadingOrTitle: text => this.sentenceAnalyzer.isHeadingOrTitle(text),
+      shouldSkipText: text => this.sentenceAnalyzer.shouldSkipText(text),
+      isContentSentence: text => this.sentenceAnalyzer.isContentSentence(text),
+      isPrepositionInHeading: text => this.sentenceAnalyzer.isPrepositionInHeading(text),
+      splitSentences: text => this.sentenceAnalyzer.splitSentences(text),
+      findIncompleteSentences: text => this.sentenceAnalyzer.findIncompleteSentences(text),
+      claimFragment: fragment => {
+        if (this.processedFragments.has(fragment)) return false;
+        this.processedFragments.add(fragment);
+        return true;
+      }
+    };
     
-    // Process each sentence for incompleteness
-    for (const sentenceText of sentences) {
-      // Skip empty or very short sentences
-      if (!sentenceText.trim() || sentenceText.trim().length < 10) continue;
-      
-      // Skip if this fragment has already been processed
-      if (this.processedFragments.has(sentenceText.trim())) continue;
-      this.processedFragments.add(sentenceText.trim());
-      
-      // Skip sections that should not be grammar checked
-      if (this.shouldSkipText(sentenceText)) continue;
-      
-      // Skip if it's a heading or title
-      if (this.isHeadingOrTitle(sentenceText.trim())) continue;
+    const errors: GrammarError[] = [];
+    for (const rule of registry.getRulesFor(language, disabledRules)) {
+      if (!this.options.checkStyle && rule.category === 'style') continue;
       
-      // Check for ending punctuation
-      if (!sentenceText.trim().match(/[.!?]$/)) {
-        // Check if it contains meaningful content (not just a UI element)
-        if (this.isContentSentence(sentenceText)) {
-          errors.push({
-            message: 'Sentence does not end with proper punctuation',
-            context: sentenceText.trim(),
-            suggestions: ['Add appropriate ending punctuation (period, exclamation mark, or question mark)'],
-            ruleId: 'MISSING_END_PUNCTUATION',
-            position: {
-              offset: text.indexOf(sentenceText),
-              length: sentenceText.length
-            }
-          });
-        }
+      for (const error of rule.check(text, context)) {
+        errors.push({
+          ...error,
+          severity: error.severity || rule.severity,
+          category: error.category || rule.category || 'grammar',
+          confidence: error.confidence ?? rule.confidence ?? DEFAULT_CONFIDENCE
+        });
       }
     }
     
@@ -396,35 +504,23 @@ export class GrammarChecker {
   }
   
   /**
-   * Determine if a text is likely a content sentence 
-   * (as opposed to UI element or code fragment)
+   * Deduplicate errors to avoid repeated reports for the same issue
    */
-  private isContentSentence(text: string): boolean {
-    // UI elements, code, and other non-content tend to be short
-    if (text.length < 15) return false;
-    
-    // Check word count - real sentences typically have multiple words
-    const words = text.split(/\s+/).filter(word => word.length > 0);
-    if (words.length < 4) return false;
-    
-    // Look for proper sentence structure
-    const hasSubjectVerb = /\b(the|a|an|this|that|these|those|we|you|they|he|she|it|I)\b.*\b(am|is|are|was|were|have|has|had|do|does|did|will|shall|may|might|can|could|would|should|must)\b/i.test(text);
-    
-    // Common words in CSS/code to filter out
-    const codeWords = ['width', 'height', 'margin', 'padding', 'color', 'font', 'grid', 'flex', 'style', 'class', 'display', 'position'];
-    const hasCodeWords = codeWords.some(word => text.toLowerCase().includes(word));
-    
-    // High density of special characters suggests code
-    const specialChars = (text.match(/[{}\[\]()=<>:;$&#%~`^\\|]/g) || []).length;
-    const specialCharDensity = specialChars / text.length;
+  private deduplicateErrors(errors: GrammarError[]): GrammarError[] {
+    const uniqueErrors: GrammarError[] = [];
+    const seenContexts = new Set<string>();
     
-    // Skip headings that end with colons
-    if (/:[^.]?$/.test(text.trim())) {
-      return false;
+    for (const error of errors) {
+      // Create a key combining the source, context, rule and (for word-level rules) the word and
+      // where it is, so the same slip twice in one sentence is reported twice
+      const key = `${error.source || ''}|${error.context.trim()}|${error.ruleId}|${error.word ? `${error.word}@${error.position.offset}` : ''}`;
+      
+      if (!seenContexts.has(key)) {
+        seenContexts.add(key);
+        uniqueErrors.push(error);
+      }
     }
     
-    // Return true if it looks like a real sentence and not code
-    return (hasSubjectVerb || 
-           (words.length >= 7 && !hasCodeWords && specialCharDensity < 0.05));
+    return uniqueErrors;
   }
-}
\ No newline at end of file
+}
@@ -1,288 +1,311 @@
 import { chromium } from '@playwright/test';
-import { GrammarChecker } from './grammarChecker';
+import { PageFailure, SiteCrawler, SiteReport, validateCrawlOptions } from './crawler';
+import { CheckResult } from './grammarChecker';
+import { Reporter } from './reporter';
+import { CheckerFactory } from './checkerFactory';
+import { GrammarSettings, LoadedConfig, loadConfig, resolveSettings } from './config';
+import { loadSitemapUrls, loadUrlList, parseSinceDate } from './urlSources';
+import { DEFAULT_DICTIONARY_FILE, addWordsFromReport } from './customDictionary';
+import { redactSecrets, resolveAuth, runLoginScript, sessionSecrets } from './auth';
+import { DEFAULT_SCREENSHOT_DIR, ScreenshotCapturer } from './screenshots';
+import { DEFAULT_BASELINE_FILE, applyBaseline, applyBaselineToSite, loadBaseline, writeBaseline } from './baseline';
+import { applySiteConsistency } from './consistency';
+import { GateResult, evaluateGate, validateGateOptions } from './ciGate';
+import { compareReportFiles } from './reportDiff';
+import { checkSourceFile, expandSourcePaths, fixSourceFile } from './sourceFiles';
 import fetch from 'node-fetch';
+import * as path from 'path';
 
 // Polyfill global fetch for Node.js environment
 if (!global.fetch) {
   (global as any).fetch = fetch;
 }
 
-interface CheckerOptions {
-  url: string;
-  language?: string;
-  motherTongue?: string;
-  disabledRules?: string[];
-  outputFormat?: 'console' | 'json' | 'html' | 'markdown';
-  outputPath?: string;
-  includeRawText?: boolean;
-  headless?: boolean;
-  detectIncomplete?: boolean;
+export interface CheckerOptions extends GrammarSettings {
+  url?: string;
+  sitemap?: string;
+  urlList?: string;
+  // Local Markdown, MDX, HTML or text files, directories or globs, checked without a browser
+  files?: string[];
+  since?: string;
+  // Explicit config file; otherwise one is discovered from the working directory
+  configPath?: string;
+  // Record the current findings as the baseline instead of suppressing them
+  updateBaseline?: boolean;
+  // Apply the safe replacements findings carry to the local files
+  fix?: boolean;
+  // Print the fixes as a unified diff instead of writing them
+  dryRun?: boolean;
 }
 
 /**
- * Main function to check grammar on a website
+ * Main function to check grammar on a website. Resolves with whether the
+ * findings pass the failOn and maxIssues thresholds.
  */
-async function checkWebsiteGrammar(options: CheckerOptions): Promise<void> {
-  const { 
-    url, 
-    language = 'en-US',
-    motherTongue, 
-    disabledRules = [],
+async function checkWebsiteGrammar(options: CheckerOptions): Promise<GateResult> {
+  const { url, sitemap, urlList, files, since, configPath, updateBaseline = false, dryRun = false } = options;
+  const fix = options.fix || dryRun;
+  
+  // Config file settings sit underneath the explicit options
+  const loadedConfig = await loadConfig(configPath);
+  if (loadedConfig.path) {
+    console.log(`Using config file: ${loadedConfig.path}`);
+  }
+  const factory = new CheckerFactory(loadedConfig.config, options);
+  
+  const {
     outputFormat = 'console',
     outputPath,
     includeRawText = false,
     headless = true,
-    detectIncomplete = true
-  } = options;
+    crawl = false,
+    baseline,
+    screenshots = false,
+    storageState,
+    httpHeaders,
+    basicAuth,
+    loginScript,
+    failOn,
+    maxIssues,
+    maxDepth,
+    maxPages,
+    concurrency
+  } = factory.settingsFor();
+  validateGateOptions({ failOn, maxIssues });
+  validateCrawlOptions({ maxDepth, maxPages, concurrency });
+  const baselinePath = baseline || (updateBaseline ? DEFAULT_BASELINE_FILE : undefined);
+  
+  // Screenshots go next to the report unless a directory is given
+  const screenshotDir = screenshots
+    ? factory.settingsFor().screenshotDir || path.join(outputPath ? path.dirname(outputPath) : '.', DEFAULT_SCREENSHOT_DIR)
+    : undefined;
+  
+  if (outputFormat !== 'console' && !outputPath) {
+    throw new Error(`An output path is required for ${outputFormat} output format`);
+  }
+  
+  if (fix && !(files && files.length > 0)) {
+    throw new Error('--fix and --dry-run only work on local files');
+  }
+  
+  // Local files never need a browser
+  if (files && files.length > 0) {
+    let report = await checkFiles(factory, files, fix ? { dryRun } : undefined);
+    console.log(`Checked ${report.pagesChecked} files. Found ${report.totalErrors} issues.`);
+    
+    if (updateBaseline) {
+      const count = await writeBaseline(baselinePath!, report.pages);
+      console.log(`Wrote ${count} findings to baseline ${baselinePath}`);
+    } else if (baselinePath) {
+      report = applyBaselineToSite(report, await loadBaseline(baselinePath));
+      console.log(`${report.suppressedErrors} issues suppressed by baseline, ${report.totalErrors} new.`);
+    }
+    
+    await new Reporter({ outputFormat, outputPath, includeRawText }).generateSiteReport(report);
+    return evaluateGate(report.pages, { failOn, maxIssues }, report.failures);
+  }
+  
+  // Sitemaps and URL lists are resolved up front so a bad source fails before the browser starts
+  let listedUrls: string[] | null = null;
+  if (sitemap || urlList) {
+    listedUrls = url ? [url] : [];
+    if (sitemap) {
+      console.log(`Loading sitemap: ${sitemap}`);
+      listedUrls.push(...await loadSitemapUrls(sitemap, { since: since ? parseSinceDate(since) : undefined }));
+    }
+    if (urlList) {
+      console.log(`Loading URL list: ${urlList}`);
+      listedUrls.push(...await loadUrlList(urlList));
+    }
+    console.log(`Found ${listedUrls.length} URLs to check`);
+  } else if (!url) {
+    throw new Error('A URL, sitemap or URL list is required');
+  } else {
+    console.log(`Starting grammar check for: ${url}`);
+  }
+  
+  // Dictionaries and rules are loaded once and shared across every page in this run
+  await factory.preload();
+  const suppressed = baselinePath && !updateBaseline ? await loadBaseline(baselinePath) : null;
+  
+  // Credentials are expanded from environment variables and kept out of everything written
+  const auth = resolveAuth({ storageState, httpHeaders, basicAuth });
   
-  console.log(`Starting grammar check for: ${url}`);
   console.log('Launching browser...');
   
+  const reporter = new Reporter({ outputFormat, outputPath, includeRawText });
+  
   const browser = await chromium.launch({ headless });
   try {
-    const context = await browser.newContext();
+    // One context for the whole run, so a login is shared by every page
+    const context = await browser.newContext(auth.contextOptions);
+    const secrets = [...auth.secrets];
+    if (loginScript) {
+      console.log(`Logging in with ${loginScript}...`);
+      secrets.push(...await runLoginScript(context, loginScript));
+    }
+    secrets.push(...await sessionSecrets(context));
+    
+    if (crawl || listedUrls) {
+      const crawlSettings = factory.settingsFor();
+      const crawler = new SiteCrawler(context, pageUrl => factory.create(pageUrl), {
+        maxDepth: crawlSettings.maxDepth,
+        maxPages: crawlSettings.maxPages,
+        concurrency: crawlSettings.concurrency,
+        includePatterns: crawlSettings.includePatterns,
+        excludePatterns: crawlSettings.excludePatterns,
+        screenshotDir,
+        loadPage: (page, pageUrl) => factory.createLoader(pageUrl).load(page, pageUrl)
+      });
+      
+      const crawled = listedUrls
+        ? await crawler.checkUrls(listedUrls, [sitemap, urlList].filter(Boolean).join(', '))
+        : await crawler.crawl(url!);
+      // Spelling variants are compared across the whole site once every page is in
+      let report = redactSecrets(applySiteConsistency(crawled, crawlSettings), secrets);
+      console.log(`Checked ${report.pagesChecked} pages. Found ${report.totalErrors} issues.`);
+      
+      if (updateBaseline) {
+        const count = await writeBaseline(baselinePath!, report.pages);
+        console.log(`Wrote ${count} findings to baseline ${baselinePath}`);
+      } else if (suppressed) {
+        report = applyBaselineToSite(report, suppressed);
+        console.log(`${report.suppressedErrors} issues suppressed by baseline, ${report.totalErrors} new.`);
+      }
+      
+      await reporter.generateSiteReport(report);
+      return evaluateGate(report.pages, { failOn, maxIssues }, report.failures);
+    }
+    
     const page = await context.newPage();
     
     console.log('Navigating to website...');
-    await page.goto(url, { waitUntil: 'networkidle' });
+    await factory.createLoader(url).load(page, url!);
     console.log('Page loaded. Extracting text...');
     
-    const grammarChecker = new GrammarChecker({
-      language,
-      motherTongue,
-      disabledRules,
-      detectIncomplete
-    });
-    
-    const result = await grammarChecker.checkPage(page);
+    const checker = await factory.create(page.url());
+    let result = redactSecrets(await checker.checkPage(page), secrets);
     console.log(`Extracted ${result.rawText.length} characters. Found ${result.totalErrors} issues.`);
     
+    if (screenshotDir) {
+      console.log(`Capturing screenshots to ${screenshotDir}...`);
+      await new ScreenshotCapturer({ outputDir: screenshotDir }).capture(page, result);
+    }
+    
+    if (updateBaseline) {
+      const count = await writeBaseline(baselinePath!, [result]);
+      console.log(`Wrote ${count} findings to baseline ${baselinePath}`);
+    } else if (suppressed) {
+      result = applyBaseline(result, suppressed);
+      console.log(`${result.suppressedErrors} issues suppressed by baseline, ${result.totalErrors} new.`);
+    }
+    
     // Output the results according to the specified format
-    outputResults(result, outputFormat, outputPath, includeRawText);
+    await reporter.generateReport(result);
+    return evaluateGate([result], { failOn, maxIssues });
     
-  } catch (error) {
-    console.error('Error:', error);
   } finally {
     await browser.close();
   }
 }
 
 /**
- * Output results in the specified format
- */
-function outputResults(result: any, format: string, outputPath?: string, includeRawText = false): void {
-  switch (format) {
-    case 'json':
-      outputJsonResults(result, outputPath, includeRawText);
-      break;
-    case 'html':
-      outputHtmlResults(result, outputPath, includeRawText);
-      break;
-    case 'markdown':
-      outputMarkdownResults(result, outputPath, includeRawText);
-      break;
-    case 'console':
-    default:
-      outputConsoleResults(result, includeRawText);
-  }
-}
-
-/**
- * Output results to console
+ * Check local files as one site report. Overrides match against each file's
+ * path, and a file that can't be read is recorded as a failure. With fix
+ * options, safe fixes are applied, or printed as a diff on a dry run.
  */
-function outputConsoleResults(result: any, includeRawText = false): void {
-  console.log(`\n=== Grammar Check Results for ${result.url} ===`);
-  console.log(`Found ${result.totalErrors} issues\n`);
+async function checkFiles(factory: CheckerFactory, patterns: string[], fix?: { dryRun: boolean }): Promise<SiteReport> {
+  const filePaths = await expandSourcePaths(patterns);
+  console.log(`Found ${filePaths.length} files to check`);
   
-  result.errors.forEach((error: any, index: number) => {
-    console.log(`Issue #${index + 1}: ${error.message}`);
-    console.log(`Context: "${error.context}"`);
-    console.log(`Suggestions: ${error.suggestions.join(', ')}`);
-    console.log(`Rule ID: ${error.ruleId}`);
-    console.log('---');
-  });
+  await factory.preload();
+  const pages: CheckResult[] = [];
+  const failures: PageFailure[] = [];
   
-  if (includeRawText) {
-    console.log('\nExtracted Text:');
-    console.log(result.rawText);
+  for (const filePath of filePaths) {
+    const displayPath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+    try {
+      const checker = await factory.create(displayPath);
+      if (!fix) {
+        pages.push(await checkSourceFile(checker, filePath));
+        continue;
+      }
+      
+      const { result, diff } = await fixSourceFile(checker, filePath, fix.dryRun);
+      if (fix.dryRun) {
+        process.stdout.write(diff);
+      } else if (result.fixes!.applied.length > 0) {
+        console.log(`Fixed ${result.fixes!.applied.length} issues in ${displayPath}`);
+      }
+      pages.push(result);
+    } catch (error) {
+      failures.push({ url: displayPath, error: error instanceof Error ? error.message : String(error) });
+    }
   }
   
-  console.log('\nCheck complete!');
+  const report: SiteReport = {
+    seedUrl: patterns.join(', '),
+    pagesChecked: pages.length,
+    totalErrors: pages.reduce((sum, page) => sum + page.totalErrors, 0),
+    pages,
+    failures
+  };
+  // Spelling variants are compared across every file, as across a site
+  return applySiteConsistency(report, factory.settingsFor());
 }
 
 /**
- * Output results to JSON file
+ * Get the effective settings for a run (or for one URL): the config file,
+ * any matching overrides, then the explicit options
  */
-function outputJsonResults(result: any, outputPath?: string, includeRawText = false): void {
-  if (!outputPath) {
-    console.error('Error: Output path is required for JSON format');
-    return;
-  }
-  
-  const fs = require('fs');
-  const path = require('path');
-  
-  const outputData = includeRawText ? result : { ...result, rawText: undefined };
+async function getEffectiveConfig(options: CheckerOptions): Promise<{ source: string | null; settings: GrammarSettings; overrides: LoadedConfig['config']['overrides'] }> {
+  const loadedConfig = await loadConfig(options.configPath);
   
-  try {
-    // Ensure directory exists
-    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-    fs.writeFileSync(outputPath, JSON.stringify(outputData, null, 2));
-    console.log(`JSON report saved to ${outputPath}`);
-  } catch (error) {
-    console.error('Error saving JSON report:', error);
-  }
+  return {
+    source: loadedConfig.path,
+    settings: resolveSettings(loadedConfig.config, options, options.url),
+    overrides: loadedConfig.config.overrides
+  };
 }
 
 /**
- * Output results to HTML file
+ * Accept the words flagged as misspelled in a JSON report into the project dictionary
  */
-function outputHtmlResults(result: any, outputPath?: string, includeRawText = false): void {
-  if (!outputPath) {
-    console.error('Error: Output path is required for HTML format');
+async function addToDictionary(reportPath: string, dictionaryPath = DEFAULT_DICTIONARY_FILE): Promise<void> {
+  const added = await addWordsFromReport(reportPath, dictionaryPath);
+  
+  if (added.length === 0) {
+    console.log(`No new words to add to ${dictionaryPath}`);
     return;
   }
   
-  const fs = require('fs');
-  const path = require('path');
-  
-  const html = `
-  <!DOCTYPE html>
-  <html lang="en">
-  <head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Grammar Check Results for ${result.url}</title>
-    <style>
-      body { font-family: Arial, sans-serif; line-height: 1.6; margin: 0; padding: 20px; color: #333; }
-      h1 { color: #2c3e50; }
-      .summary { background: #f8f9fa; padding: 15px; border-radius: 5px; margin-bottom: 20px; }
-      .error { background: #fff; border-left: 4px solid #e74c3c; padding: 15px; margin-bottom: 15px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
-      .suggestions { color: #27ae60; }
-      .context { background: #f1f1f1; padding: 10px; border-radius: 3px; font-family: monospace; white-space: pre-wrap; }
-      .rule { color: #7f8c8d; font-size: 0.9em; }
-      .raw-text { background: #f9f9f9; padding: 15px; border-radius: 5px; white-space: pre-wrap; font-family: monospace; font-size: 0.9em; }
-    </style>
-  </head>
-  <body>
-    <h1>Grammar Check Results</h1>
-    <div class="summary">
-      <p><strong>URL:</strong> ${result.url}</p>
-      <p><strong>Total Issues:</strong> ${result.totalErrors}</p>
-      <p><strong>Date:</strong> ${new Date().toLocaleString()}</p>
-    </div>
-    
-    <h2>Issues Found:</h2>
-    ${result.errors.map((error: any, index: number) => `
-      <div class="error">
-        <h3>Issue #${index + 1}: ${error.message}</h3>
-        <div class="context">${error.context}</div>
-        <p class="suggestions"><strong>Suggestions:</strong> ${error.suggestions.join(', ')}</p>
-        <p class="rule"><strong>Rule ID:</strong> ${error.ruleId}</p>
-      </div>
-    `).join('')}
-    
-    ${includeRawText ? `
-      <h2>Raw Text Content:</h2>
-      <div class="raw-text">${result.rawText}</div>
-    ` : ''}
-  </body>
-  </html>
-  `;
-  
-  try {
-    // Ensure directory exists
-    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-    fs.writeFileSync(outputPath, html);
-    console.log(`HTML report saved to ${outputPath}`);
-  } catch (error) {
-    console.error('Error saving HTML report:', error);
-  }
+  console.log(`Added ${added.length} words to ${dictionaryPath}:`);
+  added.forEach(word => console.log(`  ${word}`));
 }
 
 /**
- * Output results to Markdown file
+ * Compare two JSON reports, or a baseline and a JSON report. The failOn and
+ * maxIssues thresholds only count new findings, so CI fails on regressions alone.
  */
-function outputMarkdownResults(result: any, outputPath?: string, includeRawText = false): void {
-  if (!outputPath) {
-    console.error('Error: Output path is required for Markdown format');
-    return;
+async function compareReports(beforePath: string, afterPath: string, options: CheckerOptions = {}): Promise<GateResult> {
+  const loadedConfig = await loadConfig(options.configPath);
+  const { outputFormat = 'console', outputPath, failOn, maxIssues } = resolveSettings(loadedConfig.config, options);
+  validateGateOptions({ failOn, maxIssues });
+  
+  if (outputFormat !== 'console' && !outputPath) {
+    throw new Error(`An output path is required for ${outputFormat} output format`);
   }
   
-  const fs = require('fs');
-  const path = require('path');
+  const diff = await compareReportFiles(beforePath, afterPath);
+  await new Reporter({ outputFormat, outputPath }).generateDiffReport(diff);
   
-  const markdown = `
-# Grammar Check Results for ${result.url}
-
-**Total Issues:** ${result.totalErrors}  
-**Date:** ${new Date().toLocaleString()}
-
-## Issues Found:
-
-${result.errors.map((error: any, index: number) => `
-### Issue #${index + 1}: ${error.message}
-
-**Context:** \`${error.context}\`  
-**Suggestions:** ${error.suggestions.join(', ')}  
-**Rule ID:** ${error.ruleId}
-`).join('\n')}
-
-${includeRawText ? `
-## Raw Text Content:
-
-\`\`\`
-${result.rawText}
-\`\`\`
-` : ''}
-  `;
-  
-  try {
-    // Ensure directory exists
-    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-    fs.writeFileSync(outputPath, markdown);
-    console.log(`Markdown report saved to ${outputPath}`);
-  } catch (error) {
-    console.error('Error saving Markdown report:', error);
-  }
+  return evaluateGate(diff.pages.map(page => ({ errors: page.new })), { failOn, maxIssues });
 }
 
-// If this file is run directly
+export { checkWebsiteGrammar, addToDictionary, getEffectiveConfig, compareReports };
+
+// If this file is run directly, behave exactly like the CLI
 if (require.main === module) {
-  // Process command line arguments
-  const args = process.argv.slice(2);
-  const url = args[0];
-  
-  if (!url) {
-    console.log('Usage: npx ts-node src/index.ts <url> [options]');
-    process.exit(1);
-  }
-  
-  // Parse additional options (simplified version)
-  const options: CheckerOptions = { url };
-  
-  for (let i = 1; i < args.length; i++) {
-    const arg = args[i];
-    if (arg === '--language' || arg === '-l') {
-      options.language = args[++i];
-    } else if (arg === '--output-format' || arg === '-f') {
-      options.outputFormat = args[++i] as any;
-    } else if (arg === '--output-path' || arg === '-o') {
-      options.outputPath = args[++i];
-    } else if (arg === '--include-raw-text' || arg === '-r') {
-      options.includeRawText = true;
-    } else if (arg === '--no-headless') {
-      options.headless = false;
-    } else if (arg === '--no-incomplete') {
-      options.detectIncomplete = false;
-    }
-  }
-  
-  checkWebsiteGrammar(options)
-    .catch(err => {
-      console.error('Fatal error:', err);
-      process.exit(1);
-    });
+  require('./cli').main();
 }
 
-export { checkWebsiteGrammar };
\ No newline at end of file
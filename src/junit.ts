@@ -0,0 +1,57 @@
+import { CheckResult, GrammarError } from './grammarChecker';
+import { PageFailure } from './crawler';
+import { TEXT_SOURCE_PROFILES } from './textSources';
+
+// Groups every page under one class in CI test views
+const TESTCASE_CLASS = 'grammar';
+
+/**
+ * Render checked pages as JUnit XML: one testcase per page, one failure per
+ * finding, and an error for each page that could not be checked
+ */
+export function toJunitXml(name: string, pages: Pick<CheckResult, 'url' | 'errors'>[], failures: PageFailure[] = []): string {
+  const findings = pages.reduce((sum, page) => sum + page.errors.length, 0);
+  const tests = pages.length + failures.length;
+
+  const testcases = [
+    ...pages.map(page => renderTestcase(page.url, page.errors.map(renderFailure))),
+    ...failures.map(failure => renderTestcase(failure.url, [`      <error message="${escapeXml(failure.error)}"/>`]))
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="Grammar check" tests="${tests}" failures="${findings}" errors="${failures.length}">
+  <testsuite name="${escapeXml(name)}" tests="${tests}" failures="${findings}" errors="${failures.length}" timestamp="${new Date().toISOString()}">
+${testcases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+}
+
+function renderTestcase(url: string, children: string[]): string {
+  const open = `    <testcase classname="${TESTCASE_CLASS}" name="${escapeXml(url)}"`;
+  return children.length === 0 ? `${open}/>` : `${open}>\n${children.join('\n')}\n    </testcase>`;
+}
+
+function renderFailure(error: GrammarError): string {
+  const details = [
+    `Context: ${error.context}`,
+    error.suggestions.length > 0 ? `Suggestions: ${error.suggestions.join(', ')}` : '',
+    `Severity: ${error.severity}, category: ${error.category}, confidence: ${Math.round(error.confidence * 100)}%`,
+    error.source && error.source !== 'body' ? `Source: ${TEXT_SOURCE_PROFILES[error.source].label}` : '',
+    error.line ? `Line: ${error.line}, column ${error.column}` : '',
+    error.location ? `Element: ${error.location.selector}` : ''
+  ].filter(Boolean).join('\n');
+
+  return `      <failure message="${escapeXml(error.message)}" type="${escapeXml(error.ruleId)}">${escapeXml(details)}</failure>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
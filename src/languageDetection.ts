@@ -0,0 +1,66 @@
+// franc-min ships without types; its API is the same as franc's
+const franc: typeof import('franc') = require('franc-min');
+const iso6393: Array<{ iso6393: string; iso6391?: string }> = require('iso-639-3');
+
+// Shorter text is too ambiguous to detect reliably, e.g. "Click here"
+const MIN_WORDS = 4;
+// Scores are relative to the best match (1); the expected language must score
+// below this for detection to overrule it, so near ties keep the expected one
+const MAX_EXPECTED_SCORE = 0.75;
+
+const TO_ISO6391 = new Map(iso6393.filter(entry => entry.iso6391).map(entry => [entry.iso6393, entry.iso6391!]));
+
+/**
+ * The primary subtag of a language tag, e.g. "en" for "en-US"
+ */
+export function primaryLanguage(language: string): string {
+  return language.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Detect the language of a piece of text as an ISO 639-1 code. Returns null
+ * when the text is too short to tell, or when the expected language is a
+ * close enough match.
+ */
+export function detectLanguage(text: string, expected: string): string | null {
+  if (text.split(/\s+/).filter(word => /\p{L}{2,}/u.test(word)).length < MIN_WORDS) return null;
+
+  const scores = franc.all(text);
+  const [best] = scores;
+  if (!best || best[0] === 'und') return null;
+
+  const detected = TO_ISO6391.get(best[0]);
+  const wanted = primaryLanguage(expected);
+  if (!detected || detected === wanted) return null;
+
+  // Languages the detector does not know can't be told apart from the rest
+  const expectedScore = scores.find(([code]) => TO_ISO6391.get(code) === wanted);
+  if (!expectedScore || expectedScore[1] >= MAX_EXPECTED_SCORE) return null;
+
+  return detected;
+}
+
+/**
+ * Pick the language to check a paragraph in. A lang attribute on the element
+ * (or an ancestor below <html>) is trusted as is; otherwise clear detection
+ * wins over the page language, which wins over the configured language. A
+ * language matching the configured one keeps its region, e.g. "en" on a page
+ * checked as en-US stays en-US.
+ */
+export function resolveLanguage(
+  text: string,
+  languages: { element?: string; page?: string; configured: string },
+  detect = true
+): string {
+  const { element, page, configured } = languages;
+  let language = element || page || configured;
+
+  if (!element && detect) {
+    language = detectLanguage(text, language) || language;
+  }
+
+  if (primaryLanguage(language) === primaryLanguage(configured) && !/[-_]/.test(language)) {
+    return configured;
+  }
+  return language;
+}
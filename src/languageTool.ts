@@ -0,0 +1,181 @@
+import fetch from 'node-fetch';
+import { GrammarError } from './grammarChecker';
+import { Category, Severity } from './rules/types';
+
+export interface LanguageToolOptions {
+  // Base URL of a LanguageTool-compatible server, e.g. http://localhost:8081
+  baseUrl: string;
+  language?: string;
+  motherTongue?: string;
+  disabledRules?: string[];
+  // Largest text sent in a single request; the public API rejects anything over 20KB
+  maxChunkSize?: number;
+  // Retries after a rate-limit (429) or unavailable (503) response
+  maxRetries?: number;
+  maxSuggestions?: number;
+}
+
+interface LanguageToolMatch {
+  message: string;
+  shortMessage?: string;
+  offset: number;
+  length: number;
+  replacements: { value: string }[];
+  context: {
+    text: string;
+    offset: number;
+    length: number;
+  };
+  rule: {
+    id: string;
+    description: string;
+    // LanguageTool's own rule category, e.g. TYPOS or PUNCTUATION
+    category?: { id: string };
+    // Localization Quality Issue Type, e.g. misspelling or style
+    issueType?: string;
+  };
+}
+
+const CATEGORY_MAP: Record<string, Category> = {
+  TYPOS: 'spelling',
+  CASING: 'spelling',
+  PUNCTUATION: 'punctuation',
+  TYPOGRAPHY: 'punctuation',
+  STYLE: 'style',
+  REDUNDANCY: 'style',
+  PLAIN_ENGLISH: 'style'
+};
+
+// LanguageTool's confidence isn't exposed per match
+const LANGUAGETOOL_CONFIDENCE = 0.8;
+
+interface TextChunk {
+  text: string;
+  offset: number;
+}
+
+export class LanguageToolClient {
+  constructor(private options: LanguageToolOptions) {
+    this.options.baseUrl = this.options.baseUrl.replace(/\/+$/, '');
+    this.options.language = this.options.language || 'en-US';
+    this.options.disabledRules = this.options.disabledRules || [];
+    this.options.maxChunkSize = this.options.maxChunkSize || 20000;
+    this.options.maxRetries = this.options.maxRetries ?? 3;
+    this.options.maxSuggestions = this.options.maxSuggestions ?? 5;
+  }
+
+  /**
+   * Check text with the LanguageTool server, chunking long pages and
+   * mapping matches back to offsets in the full text
+   */
+  async check(text: string): Promise<GrammarError[]> {
+    const errors: GrammarError[] = [];
+
+    // Chunks are sent one at a time so we don't trip rate limits ourselves
+    for (const chunk of this.splitIntoChunks(text)) {
+      const matches = await this.requestCheck(chunk.text);
+      errors.push(...matches.map(match => this.toGrammarError(match, chunk.offset)));
+    }
+
+    return errors;
+  }
+
+  /**
+   * POST one chunk to /v2/check, backing off and retrying on rate limits
+   */
+  private async requestCheck(text: string): Promise<LanguageToolMatch[]> {
+    const body = new URLSearchParams({ text, language: this.options.language! });
+    if (this.options.motherTongue) body.set('motherTongue', this.options.motherTongue);
+    if (this.options.disabledRules!.length > 0) body.set('disabledRules', this.options.disabledRules!.join(','));
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.options.baseUrl}/v2/check`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        },
+        body: body.toString()
+      });
+
+      if ((response.status === 429 || response.status === 503) && attempt < this.options.maxRetries!) {
+        const delay = this.getRetryDelay(response.headers.get('retry-after'), attempt);
+        console.warn(`LanguageTool returned ${response.status}, retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`LanguageTool request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json() as { matches?: LanguageToolMatch[] };
+      return result.matches || [];
+    }
+  }
+
+  /**
+   * Honour Retry-After (seconds or HTTP date), falling back to exponential backoff
+   */
+  private getRetryDelay(retryAfter: string | null, attempt: number): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) return seconds * 1000;
+
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    return 1000 * Math.pow(2, attempt);
+  }
+
+  private toGrammarError(match: LanguageToolMatch, chunkOffset: number): GrammarError {
+    return {
+      message: match.message,
+      context: match.context.text,
+      suggestions: match.replacements.slice(0, this.options.maxSuggestions).map(r => r.value),
+      ruleId: match.rule.id,
+      severity: toSeverity(match.rule.issueType),
+      category: CATEGORY_MAP[match.rule.category?.id || ''] || 'grammar',
+      confidence: LANGUAGETOOL_CONFIDENCE,
+      position: {
+        offset: chunkOffset + match.offset,
+        length: match.length
+      }
+    };
+  }
+
+  /**
+   * Split text into chunks no larger than maxChunkSize, preferring paragraph
+   * breaks, then sentence ends, then whitespace
+   */
+  private splitIntoChunks(text: string): TextChunk[] {
+    const maxSize = this.options.maxChunkSize!;
+    const chunks: TextChunk[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      if (text.length - start <= maxSize) {
+        chunks.push({ text: text.slice(start), offset: start });
+        break;
+      }
+
+      const window = text.slice(start, start + maxSize);
+      let cut = window.lastIndexOf('\n\n');
+      if (cut <= 0) cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? ')) + 1;
+      if (cut <= 0) cut = window.lastIndexOf(' ');
+      if (cut <= 0) cut = maxSize;
+
+      chunks.push({ text: text.slice(start, start + cut), offset: start });
+      start += cut;
+    }
+
+    return chunks;
+  }
+}
+
+function toSeverity(issueType?: string): Severity {
+  if (issueType === 'misspelling' || issueType === 'grammar') return 'error';
+  if (issueType === 'style') return 'info';
+  return 'warning';
+}
@@ -0,0 +1,132 @@
+import { Page, Response } from '@playwright/test';
+import * as path from 'path';
+import { HIDDEN_ATTRIBUTE } from './extraction';
+
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle' | 'commit';
+
+export const WAIT_UNTIL_VALUES: WaitUntil[] = ['load', 'domcontentloaded', 'networkidle', 'commit'];
+
+/**
+ * A pre-check interaction: receives the loaded page and can click through
+ * tabs, open modals etc. before the text is extracted
+ */
+export type InteractionScript = (page: Page, context: { url: string }) => Promise<void> | void;
+
+export interface PageLoaderOptions {
+  // Navigation event to wait for (default: networkidle)
+  waitUntil?: WaitUntil;
+  // Wait until an element matching this selector is attached
+  waitForSelector?: string;
+  // Wait until this JavaScript expression is truthy in the page
+  waitForFunction?: string;
+  // Extra fixed delay in milliseconds after the other conditions are met
+  waitForTimeout?: number;
+  // Open every <details> element before checking
+  expandDetails?: boolean;
+  // Module exporting an InteractionScript (default export or `interact`)
+  interactionScript?: string;
+}
+
+/**
+ * Navigates to a page and waits until its content is ready to be checked
+ */
+export class PageLoader {
+  private script: Promise<InteractionScript> | null = null;
+
+  constructor(private options: PageLoaderOptions = {}) {
+    this.options.waitUntil = this.options.waitUntil || 'networkidle';
+    if (!WAIT_UNTIL_VALUES.includes(this.options.waitUntil)) {
+      throw new Error(`Unknown waitUntil "${this.options.waitUntil}"; expected one of ${WAIT_UNTIL_VALUES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Resolve once the interaction script (if any) has been loaded, so a bad
+   * path fails before any page is opened
+   */
+  async ready(): Promise<void> {
+    await this.getScript();
+  }
+
+  /**
+   * Navigate, wait for the configured conditions and run the interactions
+   */
+  async load(page: Page, url: string): Promise<Response | null> {
+    const { waitUntil, waitForSelector, waitForFunction, waitForTimeout, expandDetails } = this.options;
+
+    const response = await page.goto(url, { waitUntil });
+
+    if (waitForSelector) {
+      await page.waitForSelector(waitForSelector, { state: 'attached' });
+    }
+    if (waitForFunction) {
+      await page.waitForFunction(waitForFunction);
+    }
+
+    if (expandDetails) {
+      await page.evaluate(() => {
+        document.querySelectorAll('details:not([open])').forEach(details => details.setAttribute('open', ''));
+      });
+    }
+    const interact = await this.getScript();
+    if (interact) {
+      await interact(page, { url: page.url() });
+    }
+
+    if (waitForTimeout) {
+      await page.waitForTimeout(waitForTimeout);
+    }
+
+    return response;
+  }
+
+  private getScript(): Promise<InteractionScript | null> {
+    if (!this.options.interactionScript) return Promise.resolve(null);
+    if (!this.script) {
+      this.script = loadInteractionScript(this.options.interactionScript);
+    }
+    return this.script;
+  }
+}
+
+/**
+ * Mark every element the browser does not render (display: none, visibility: hidden,
+ * closed <details>, ...) with HIDDEN_ATTRIBUTE. Descendants of a marked element are
+ * left unmarked. Returns a function that removes the marks again.
+ */
+export async function markHiddenElements(page: Page): Promise<() => Promise<void>> {
+  await page.evaluate(attribute => {
+    for (const element of Array.from(document.querySelectorAll('body *'))) {
+      if (element.parentElement && element.parentElement.closest(`[${attribute}]`)) continue;
+
+      const visible = typeof (element as any).checkVisibility === 'function'
+        ? (element as any).checkVisibility({ checkVisibilityCSS: true })
+        : getComputedStyle(element).display !== 'none' && getComputedStyle(element).visibility !== 'hidden';
+      if (!visible) element.setAttribute(attribute, '');
+    }
+  }, HIDDEN_ATTRIBUTE);
+
+  return async () => {
+    await page.evaluate(attribute => {
+      document.querySelectorAll(`[${attribute}]`).forEach(element => element.removeAttribute(attribute));
+    }, HIDDEN_ATTRIBUTE);
+  };
+}
+
+async function loadInteractionScript(scriptPath: string): Promise<InteractionScript> {
+  const resolved = path.resolve(scriptPath);
+
+  let loaded: any;
+  try {
+    loaded = require(resolved);
+  } catch (error) {
+    throw new Error(`Could not load interaction script ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const interact = typeof loaded === 'function' ? loaded : loaded.default ?? loaded.interact;
+  if (typeof interact !== 'function') {
+    throw new Error(`Interaction script ${resolved} must export a function (default export or "interact")`);
+  }
+
+  return interact;
+}
@@ -0,0 +1,60 @@
+import { countWords } from './textUtils';
+import { SentenceAnalyzer } from './sentenceAnalyzer';
+
+/**
+ * Page-level readability scores for English text
+ */
+export interface ReadabilityMetrics {
+  sentences: number;
+  words: number;
+  // Average words per sentence
+  averageSentenceLength: number;
+  // Flesch reading ease: 60-70 is plain English, below 30 is very hard to read
+  fleschReadingEase: number;
+  // Flesch-Kincaid grade level, the US school grade needed to follow the text
+  gradeLevel: number;
+}
+
+/**
+ * Compute readability scores, or null for text without any sentences.
+ * Headings and other sentences of one or two words are left out, as they
+ * would make any page look easy to read.
+ */
+export function computeReadability(text: string, sentenceAnalyzer = new SentenceAnalyzer()): ReadabilityMetrics | null {
+  const sentences = sentenceAnalyzer.splitSentences(text).map(sentence => sentence.text).filter(sentence => countWords(sentence) > 2);
+  if (sentences.length === 0) return null;
+
+  const words = sentences.flatMap(sentence => sentence.match(/\p{L}[\p{L}'’-]*/gu) || []);
+  if (words.length === 0) return null;
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord = syllables / words.length;
+
+  return {
+    sentences: sentences.length,
+    words: words.length,
+    averageSentenceLength: round(wordsPerSentence),
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    gradeLevel: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59)
+  };
+}
+
+/**
+ * Estimate the syllables in an English word by counting vowel groups
+ */
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (lower.length <= 3) return 1;
+
+  const trimmed = lower
+    // Silent endings: "make", "named", "goes", but not "table"
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { GrammarError } from './grammarChecker';
+import { fingerprintFinding, isBaseline, normalizeUrl } from './baseline';
+
+/**
+ * A finding from either run. Findings read from a baseline file only have
+ * a rule ID, context and the fingerprint stored with them.
+ */
+export type ComparedFinding = Pick<GrammarError, 'ruleId' | 'context'> & Partial<GrammarError> & { fingerprint?: string };
+
+/**
+ * How the findings on one page changed between two runs
+ */
+export interface PageDiff {
+  url: string;
+  // Only in the later run
+  new: GrammarError[];
+  // Only in the earlier run
+  resolved: ComparedFinding[];
+  // In both runs, as reported by the later one
+  persisting: GrammarError[];
+}
+
+export interface ReportDiff {
+  // The two files compared
+  before: string;
+  after: string;
+  pages: PageDiff[];
+  totalNew: number;
+  totalResolved: number;
+  totalPersisting: number;
+}
+
+interface ComparedPage {
+  url: string;
+  findings: ComparedFinding[];
+}
+
+/**
+ * Compare two JSON reports, or a baseline file and a JSON report. Findings
+ * are matched by their baseline fingerprint (page URL, rule ID and context),
+ * so text moving around on a page does not count as a change.
+ */
+export async function compareReportFiles(beforePath: string, afterPath: string): Promise<ReportDiff> {
+  const [before, after] = await Promise.all([readComparedPages(beforePath, true), readComparedPages(afterPath, false)]);
+  const diff = diffPages(before, after as { url: string; findings: GrammarError[] }[]);
+
+  return { before: beforePath, after: afterPath, ...diff };
+}
+
+/**
+ * Compare the pages of two runs. Identical findings in a report are matched
+ * one for one, so a second copy of a known mistake still counts as new; a
+ * baseline entry covers every copy, as it does when suppressing. Findings
+ * left over are then paired by rule and flagged word, so a typo whose
+ * surrounding text was edited is not reported as both new and resolved.
+ */
+function diffPages(
+  before: ComparedPage[],
+  after: { url: string; findings: GrammarError[] }[]
+): Omit<ReportDiff, 'before' | 'after'> {
+  const beforeByUrl = new Map(before.map(page => [normalizeUrl(page.url), page]));
+  const afterByUrl = new Map(after.map(page => [normalizeUrl(page.url), page]));
+  const urls = [...new Set([...afterByUrl.keys(), ...beforeByUrl.keys()])];
+
+  const pages = urls.map(key => {
+    const url = (afterByUrl.get(key) || beforeByUrl.get(key))!.url;
+    const earlier = beforeByUrl.get(key)?.findings || [];
+    const candidates = new Map<string, ComparedFinding[]>();
+    for (const finding of earlier) {
+      const fingerprint = fingerprintOf(url, finding);
+      candidates.set(fingerprint, [...(candidates.get(fingerprint) || []), finding]);
+    }
+
+    const page: PageDiff = { url, new: [], resolved: [], persisting: [] };
+    const matched = new Set<ComparedFinding>();
+    const unmatched: GrammarError[] = [];
+    for (const finding of afterByUrl.get(key)?.findings || []) {
+      const options = candidates.get(fingerprintOf(url, finding)) || [];
+      const match = options.find(option => !matched.has(option)) || options.find(option => option.fingerprint);
+      if (match) {
+        matched.add(match);
+        page.persisting.push(finding);
+      } else {
+        unmatched.push(finding);
+      }
+    }
+
+    for (const finding of unmatched) {
+      const match = finding.word
+        ? earlier.find(option => !matched.has(option) && option.ruleId === finding.ruleId && sameWord(option.word, finding.word))
+        : undefined;
+      if (match) {
+        matched.add(match);
+        page.persisting.push(finding);
+      } else {
+        page.new.push(finding);
+      }
+    }
+    page.resolved = earlier.filter(finding => !matched.has(finding));
+
+    return page;
+  });
+
+  return {
+    pages,
+    totalNew: pages.reduce((sum, page) => sum + page.new.length, 0),
+    totalResolved: pages.reduce((sum, page) => sum + page.resolved.length, 0),
+    totalPersisting: pages.reduce((sum, page) => sum + page.persisting.length, 0)
+  };
+}
+
+/**
+ * Read a single-page or site JSON report, or a baseline file when it may be one
+ */
+async function readComparedPages(filePath: string, allowBaseline: boolean): Promise<ComparedPage[]> {
+  let data: any;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read report ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (isBaseline(data)) {
+    if (!allowBaseline) {
+      throw new Error(`${filePath} is a baseline; the later side of a comparison must be a JSON report`);
+    }
+    const pages = new Map<string, ComparedPage>();
+    for (const entry of data.findings) {
+      const page = pages.get(entry.url) || { url: entry.url, findings: [] };
+      // Keep the stored fingerprint so entries match however they were normalised
+      page.findings.push({ ruleId: entry.ruleId, context: entry.context, fingerprint: entry.fingerprint });
+      pages.set(entry.url, page);
+    }
+    return [...pages.values()];
+  }
+
+  const pages = Array.isArray(data?.pages) ? data.pages : [data];
+  if (!pages.every((page: any) => page && typeof page.url === 'string' && Array.isArray(page.errors))) {
+    throw new Error(`Invalid report ${filePath}: expected a JSON report written with --output-format json`);
+  }
+
+  return pages.map((page: any) => ({ url: page.url, findings: page.errors }));
+}
+
+function sameWord(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function fingerprintOf(url: string, finding: ComparedFinding): string {
+  return finding.fingerprint || fingerprintFinding(url, finding);
+}
@@ -1,13 +1,58 @@
-import { CheckResult } from './grammarChecker';
+import { CheckResult, GrammarError, UncheckedText } from './grammarChecker';
+import { SiteReport } from './crawler';
+import { ExtractionSummary } from './extraction';
+import { ReadabilityMetrics } from './readabilityMetrics';
+import { summarizeFindings } from './findingFilters';
+import { CATEGORIES, Category, SEVERITIES, Severity } from './rules/types';
+import { TEXT_SOURCE_PROFILES } from './textSources';
+import { toSarifDiffLog, toSarifLog } from './sarif';
+import { ComparedFinding, PageDiff, ReportDiff } from './reportDiff';
+import { toJunitXml } from './junit';
+import { OutputFormat } from './config';
+import { FixRecord, FixSummary } from './autoFix';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export interface ReportOptions {
-  outputFormat?: 'console' | 'json' | 'html' | 'markdown';
+  outputFormat?: OutputFormat;
   outputPath?: string;
   includeRawText?: boolean;
 }
 
+const SEVERITY_HEADINGS: Record<Severity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info'
+};
+
+const CATEGORY_HEADINGS: Record<Category, string> = {
+  spelling: 'Spelling',
+  grammar: 'Grammar',
+  punctuation: 'Punctuation',
+  style: 'Style',
+  consistency: 'Consistency'
+};
+
+const HTML_STYLES = `
+        body { font-family: Arial, sans-serif; line-height: 1.6; margin: 0; padding: 20px; color: #333; }
+        h1 { color: #2c3e50; }
+        .summary { background: #f8f9fa; padding: 15px; border-radius: 5px; margin-bottom: 20px; }
+        .error { background: #fff; border-left: 4px solid #e74c3c; padding: 15px; margin-bottom: 15px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+        .error.warning { border-left-color: #f39c12; }
+        .error.info { border-left-color: #3498db; }
+        .suggestions { color: #27ae60; }
+        .context { background: #f1f1f1; padding: 10px; border-radius: 3px; font-family: monospace; white-space: pre-wrap; }
+        .rule { color: #7f8c8d; font-size: 0.9em; }
+        .page { border-top: 1px solid #ddd; margin-top: 30px; }
+        .failure { color: #c0392b; }
+        .unchecked { color: #7f8c8d; }
+        .resolved { color: #27ae60; text-decoration: line-through; }
+        .persisting { color: #7f8c8d; }
+        .severity { color: #2c3e50; border-bottom: 1px solid #ddd; }
+        .category { color: #7f8c8d; margin-bottom: 10px; }
+        .screenshot img { max-width: 320px; max-height: 200px; border: 1px solid #ddd; }
+      `;
+
 export class Reporter {
   constructor(private options: ReportOptions = {}) {
     this.options.outputFormat = this.options.outputFormat || 'console';
@@ -28,28 +73,276 @@ export class Reporter {
       case 'markdown':
         await this.generateMarkdownReport(result);
         break;
+      case 'sarif':
+        await this.writeReport('SARIF', JSON.stringify(toSarifLog([result]), null, 2));
+        break;
+      case 'junit':
+        await this.writeReport('JUnit', toJunitXml(result.url, [result]));
+        break;
       case 'console':
       default:
         this.generateConsoleReport(result);
     }
   }
   
+  /**
+   * Generate an aggregated report for a crawled site
+   */
+  async generateSiteReport(report: SiteReport): Promise<void> {
+    switch (this.options.outputFormat) {
+      case 'json':
+        await this.generateSiteJsonReport(report);
+        break;
+      case 'html':
+        await this.generateSiteHtmlReport(report);
+        break;
+      case 'markdown':
+        await this.generateSiteMarkdownReport(report);
+        break;
+      case 'sarif':
+        await this.writeReport('SARIF', JSON.stringify(toSarifLog(report.pages), null, 2));
+        break;
+      case 'junit':
+        await this.writeReport('JUnit', toJunitXml(report.seedUrl, report.pages, report.failures));
+        break;
+      case 'console':
+      default:
+        this.generateSiteConsoleReport(report);
+    }
+  }
+  
+  /**
+   * Generate a report of what changed between two runs
+   */
+  async generateDiffReport(diff: ReportDiff): Promise<void> {
+    switch (this.options.outputFormat) {
+      case 'json':
+        await this.writeReport('JSON', JSON.stringify({
+          ...diff,
+          summary: summarizeFindings(diff.pages.flatMap(page => page.new))
+        }, null, 2));
+        break;
+      case 'html':
+        await this.writeReport('HTML', this.renderHtmlDiff(diff));
+        break;
+      case 'markdown':
+        await this.writeReport('Markdown', this.renderMarkdownDiff(diff));
+        break;
+      case 'sarif':
+        await this.writeReport('SARIF', JSON.stringify(toSarifDiffLog(diff), null, 2));
+        break;
+      case 'junit':
+        // Only regressions fail; resolved and unchanged findings pass
+        await this.writeReport('JUnit', toJunitXml(
+          `New issues since ${diff.before}`,
+          diff.pages.map(page => ({ url: page.url, errors: page.new }))
+        ));
+        break;
+      case 'console':
+      default:
+        this.generateDiffConsoleReport(diff);
+    }
+  }
+  
   /**
    * Print results to console
    */
   generateConsoleReport(result: CheckResult): void {
     console.log(`\n=== Grammar Check Results for ${result.url} ===`);
-    console.log(`Found ${result.totalErrors} issues\n`);
+    if (result.extraction) {
+      console.log(`Extraction: ${this.describeExtraction(result.extraction)}`);
+    }
+    if (result.readability) {
+      console.log(`Readability: ${this.describeReadability(result.readability)}`);
+    }
+    console.log(`Found ${result.totalErrors} issues${this.suppressedNote(result.suppressedErrors)}`);
+    if (result.errors.length > 0) {
+      console.log(`Breakdown: ${this.describeCounts(result.errors)}`);
+    }
+    console.log('');
+    
+    this.printConsoleErrors(result.errors);
+    this.printConsoleUnchecked(result.unchecked);
+    
+    console.log('\nCheck complete!');
+  }
+  
+  /**
+   * One-line description of how a page's text was extracted
+   */
+  private describeExtraction(extraction: ExtractionSummary): string {
+    const scope = [
+      extraction.includeSelectors.length > 0 ? `only ${extraction.includeSelectors.join(', ')}` : '',
+      extraction.excludeSelectors.length > 0 ? `excluding ${extraction.excludeSelectors.join(', ')}` : ''
+    ].filter(Boolean).join('; ');
     
-    result.errors.forEach((error, index) => {
+    return `${extraction.strategy}${scope ? `, ${scope}` : ''} (${extraction.droppedCharacters} characters dropped)`;
+  }
+  
+  /**
+   * One-line summary of a page's readability scores
+   */
+  private describeReadability(readability: ReadabilityMetrics): string {
+    return `reading ease ${readability.fleschReadingEase}, grade level ${readability.gradeLevel}, `
+      + `${readability.averageSentenceLength} words per sentence`;
+  }
+  
+  /**
+   * Summary suffix for findings hidden by the baseline
+   */
+  private suppressedNote(suppressed?: number): string {
+    return suppressed ? ` (${suppressed} suppressed by baseline)` : '';
+  }
+  
+  /**
+   * Counts by severity and category, e.g. "2 errors, 1 warning (spelling 2, style 1)"
+   */
+  private describeCounts(errors: GrammarError[]): string {
+    const summary = summarizeFindings(errors);
+    const severities = SEVERITIES
+      .filter(severity => summary.bySeverity[severity] > 0)
+      .map(severity => {
+        const count = summary.bySeverity[severity];
+        return `${count} ${severity}${count === 1 || severity === 'info' ? '' : 's'}`;
+      });
+    const categories = CATEGORIES
+      .filter(category => summary.byCategory[category] > 0)
+      .map(category => `${category} ${summary.byCategory[category]}`);
+    
+    return `${severities.join(', ')} (${categories.join(', ')})`;
+  }
+  
+  /**
+   * Severity, category and confidence of a finding, e.g. "warning · grammar · 70% confidence"
+   */
+  private describeClassification(error: GrammarError): string {
+    return `${error.severity} · ${error.category} · ${Math.round(error.confidence * 100)}% confidence`;
+  }
+  
+  /**
+   * Label for a finding outside the page body, e.g. "Image alt text"
+   */
+  private sourceLabel(error: GrammarError): string | undefined {
+    return error.source && error.source !== 'body' ? TEXT_SOURCE_PROFILES[error.source].label : undefined;
+  }
+  
+  /**
+   * One-line description of text left unchecked, e.g. `it: "Siamo una piccola squadra..." (main > p)`
+   */
+  private describeUnchecked(unchecked: UncheckedText): string {
+    const source = unchecked.source === 'body' ? '' : ` [${TEXT_SOURCE_PROFILES[unchecked.source].label}]`;
+    const where = unchecked.location ? ` (${unchecked.location.selector})` : '';
+    return `${unchecked.language}${source}: "${unchecked.excerpt}"${where}`;
+  }
+  
+  /**
+   * Print the text no checks were available for
+   */
+  private printConsoleUnchecked(unchecked: UncheckedText[] = []): void {
+    if (unchecked.length === 0) return;
+    
+    console.log(`\nUnchecked text in unsupported languages (${unchecked.length}):`);
+    unchecked.forEach(item => console.log(`  ${this.describeUnchecked(item)}`));
+  }
+  
+  /**
+   * One-line description of a fix, e.g. `docs/index.md:12:7 REPEATED_WORD: Repeated word: "the the"`
+   */
+  private describeFix(url: string, fix: FixRecord): string {
+    const where = fix.line ? `${url}:${fix.line}:${fix.column}` : url;
+    return `${where} ${fix.ruleId}: ${fix.message}${fix.reason ? ` (skipped: ${fix.reason})` : ''}`;
+  }
+  
+  /**
+   * Heading for the fixes made to a file, e.g. "Fixed 3 issues, skipped 1"
+   */
+  private describeFixes(fixes: FixSummary): string {
+    return `${fixes.dryRun ? 'Would fix' : 'Fixed'} ${fixes.applied.length} issues, skipped ${fixes.skipped.length}`;
+  }
+  
+  /**
+   * Print the fixes made to a local file and the ones left for a person
+   */
+  private printConsoleFixes(url: string, fixes?: FixSummary): void {
+    if (!fixes || fixes.applied.length + fixes.skipped.length === 0) return;
+    
+    console.log(`\n${this.describeFixes(fixes)}:`);
+    [...fixes.applied, ...fixes.skipped].forEach(fix => console.log(`  ${this.describeFix(url, fix)}`));
+  }
+  
+  /**
+   * Print per-issue details to the console
+   */
+  private printConsoleErrors(errors: GrammarError[]): void {
+    const multilingual = this.isMultilingual(errors);
+    this.groupFindings(errors).forEach(({ error, label, categoryLabel }, index) => {
+      if (label) console.log(`\n[${label}]`);
+      if (categoryLabel) console.log(`-- ${categoryLabel} --`);
       console.log(`Issue #${index + 1}: ${error.message}`);
       console.log(`Context: "${error.context}"`);
       console.log(`Suggestions: ${error.suggestions.join(', ')}`);
-      console.log(`Rule ID: ${error.ruleId}`);
+      console.log(`Rule ID: ${error.ruleId} (${this.describeClassification(error)})`);
+      if (this.sourceLabel(error)) {
+        console.log(`Source: ${this.sourceLabel(error)}`);
+      }
+      if (multilingual && error.language) {
+        console.log(`Language: ${error.language}`);
+      }
+      if (error.hidden) {
+        console.log('Hidden: yes, the text is not shown until the user reveals it');
+      }
+      if (error.line) {
+        console.log(`Line: ${error.line}, column ${error.column}`);
+      }
+      if (error.location) {
+        const attribute = error.location.attribute ? ` @${error.location.attribute}` : '';
+        console.log(`Element: ${error.location.selector}${attribute} [${error.location.start}-${error.location.end}]`);
+      }
       console.log('---');
     });
+  }
+  
+  /**
+   * Print the changes between two runs, one section per changed page
+   */
+  generateDiffConsoleReport(diff: ReportDiff): void {
+    console.log(`\n=== Comparison of ${diff.before} and ${diff.after} ===`);
+    console.log(`${this.describeDiffTotals(diff)}\n`);
     
-    console.log('\nCheck complete!');
+    for (const page of diff.pages.filter(page => page.new.length > 0 || page.resolved.length > 0)) {
+      console.log(`\n--- ${page.url} (${this.describePageDiff(page)}) ---`);
+      if (page.new.length > 0) {
+        console.log('New issues:');
+        this.printConsoleErrors(page.new);
+      }
+      if (page.resolved.length > 0) {
+        console.log('Resolved issues:');
+        page.resolved.forEach(finding => console.log(`  ${this.describeComparedFinding(finding)}`));
+      }
+    }
+    
+    console.log('\nComparison complete!');
+  }
+  
+  /**
+   * One-line totals of a comparison, e.g. "3 new, 5 resolved, 12 unchanged"
+   */
+  private describeDiffTotals(diff: ReportDiff): string {
+    return `${diff.totalNew} new, ${diff.totalResolved} resolved, ${diff.totalPersisting} unchanged`;
+  }
+  
+  /**
+   * Short counts for one page of a comparison, e.g. "+2 new, -1 resolved, 4 unchanged"
+   */
+  private describePageDiff(page: PageDiff): string {
+    return `+${page.new.length} new, -${page.resolved.length} resolved, ${page.persisting.length} unchanged`;
+  }
+  
+  /**
+   * One-line description of a finding from either side of a comparison
+   */
+  private describeComparedFinding(finding: ComparedFinding): string {
+    return `${finding.message ? `${finding.message} ` : ''}[${finding.ruleId}] "${finding.context}"`;
   }
   
   /**
@@ -60,10 +353,15 @@ export class Reporter {
       throw new Error('Output path is required for JSON reports');
     }
     
-    const outputData = this.options.includeRawText ? result : { 
+    const outputData = this.options.includeRawText ? { ...result, summary: summarizeFindings(result.errors) } : { 
       url: result.url,
       totalErrors: result.totalErrors,
-      errors: result.errors
+      suppressedErrors: result.suppressedErrors,
+      extraction: result.extraction,
+      readability: result.readability,
+      summary: summarizeFindings(result.errors),
+      errors: result.errors,
+      unchecked: result.unchecked
     };
     
     // Make sure the directory exists
@@ -97,33 +395,22 @@ export class Reporter {
       <meta charset="UTF-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
       <title>Grammar Check Results for ${result.url}</title>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; margin: 0; padding: 20px; color: #333; }
-        h1 { color: #2c3e50; }
-        .summary { background: #f8f9fa; padding: 15px; border-radius: 5px; margin-bottom: 20px; }
-        .error { background: #fff; border-left: 4px solid #e74c3c; padding: 15px; margin-bottom: 15px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
-        .suggestions { color: #27ae60; }
-        .context { background: #f1f1f1; padding: 10px; border-radius: 3px; font-family: monospace; white-space: pre-wrap; }
-        .rule { color: #7f8c8d; font-size: 0.9em; }
-      </style>
+      <style>${HTML_STYLES}</style>
     </head>
     <body>
       <h1>Grammar Check Results</h1>
       <div class="summary">
         <p><strong>URL:</strong> ${result.url}</p>
-        <p><strong>Total Issues:</strong> ${result.totalErrors}</p>
+        <p><strong>Total Issues:</strong> ${result.totalErrors}${this.suppressedNote(result.suppressedErrors)}</p>
+        ${result.errors.length > 0 ? `<p><strong>Breakdown:</strong> ${this.describeCounts(result.errors)}</p>` : ''}
+        ${result.extraction ? `<p><strong>Extraction:</strong> ${this.describeExtraction(result.extraction)}</p>` : ''}
+        ${result.readability ? `<p><strong>Readability:</strong> ${this.describeReadability(result.readability)}</p>` : ''}
         <p><strong>Date:</strong> ${new Date().toLocaleString()}</p>
       </div>
       
       <h2>Issues Found:</h2>
-      ${result.errors.map((error, index) => `
-        <div class="error">
-          <h3>Issue #${index + 1}: ${error.message}</h3>
-          <div class="context">${error.context}</div>
-          <p class="suggestions"><strong>Suggestions:</strong> ${error.suggestions.join(', ')}</p>
-          <p class="rule"><strong>Rule ID:</strong> ${error.ruleId}</p>
-        </div>
-      `).join('')}
+      ${this.renderHtmlErrors(result.errors)}
+      ${this.renderHtmlUnchecked(result.unchecked, 'h2')}
       
       ${this.options.includeRawText ? `
         <h2>Raw Text Content:</h2>
@@ -150,18 +437,13 @@ export class Reporter {
     const markdown = `
 # Grammar Check Results for ${result.url}
 
-**Total Issues:** ${result.totalErrors}  
-**Date:** ${new Date().toLocaleString()}
+**Total Issues:** ${result.totalErrors}${this.suppressedNote(result.suppressedErrors)}  
+${result.errors.length > 0 ? `**Breakdown:** ${this.describeCounts(result.errors)}  \n` : ''}${result.extraction ? `**Extraction:** ${this.describeExtraction(result.extraction)}  \n` : ''}${result.readability ? `**Readability:** ${this.describeReadability(result.readability)}  \n` : ''}**Date:** ${new Date().toLocaleString()}
 
 ## Issues Found:
 
-${result.errors.map((error, index) => `
-### Issue #${index + 1}: ${error.message}
-
-**Context:** \`${error.context}\`  
-**Suggestions:** ${error.suggestions.join(', ')}  
-**Rule ID:** ${error.ruleId}
-`).join('\n')}
+${this.renderMarkdownErrors(result.errors, '###')}
+${this.renderMarkdownUnchecked(result.unchecked, '##')}
 
 ${this.options.includeRawText ? `
 ## Raw Text Content:
@@ -177,4 +459,386 @@ ${result.rawText}
     
     console.log(`Markdown report saved to ${this.options.outputPath}`);
   }
-}
\ No newline at end of file
+  
+  /**
+   * Print site results to console, one section per page
+   */
+  generateSiteConsoleReport(report: SiteReport): void {
+    console.log(`\n=== Grammar Check Results for ${report.seedUrl} ===`);
+    console.log(`Checked ${report.pagesChecked} pages, found ${report.totalErrors} issues${this.suppressedNote(report.suppressedErrors)}`);
+    const allErrors = report.pages.flatMap(page => page.errors);
+    if (allErrors.length > 0) {
+      console.log(`Breakdown: ${this.describeCounts(allErrors)}`);
+    }
+    console.log('');
+    
+    for (const page of report.pages) {
+      console.log(`\n--- ${page.url} (${page.totalErrors} issues) ---`);
+      if (page.readability) {
+        console.log(`Readability: ${this.describeReadability(page.readability)}`);
+      }
+      this.printConsoleErrors(page.errors);
+      this.printConsoleUnchecked(page.unchecked);
+      this.printConsoleFixes(page.url, page.fixes);
+    }
+    
+    if (report.failures.length > 0) {
+      console.log('\nPages that could not be checked:');
+      report.failures.forEach(failure => console.log(`  ${failure.url}: ${failure.error}`));
+    }
+    
+    console.log('\nCheck complete!');
+  }
+  
+  /**
+   * Generate JSON site report file
+   */
+  async generateSiteJsonReport(report: SiteReport): Promise<void> {
+    if (!this.options.outputPath) {
+      throw new Error('Output path is required for JSON reports');
+    }
+    
+    const summary = summarizeFindings(report.pages.flatMap(page => page.errors));
+    const outputData = this.options.includeRawText ? { ...report, summary } : {
+      ...report,
+      summary,
+      pages: report.pages.map(page => ({
+        url: page.url,
+        totalErrors: page.totalErrors,
+        suppressedErrors: page.suppressedErrors,
+        extraction: page.extraction,
+        readability: page.readability,
+        summary: summarizeFindings(page.errors),
+        errors: page.errors,
+        unchecked: page.unchecked,
+        fixes: page.fixes
+      }))
+    };
+    
+    await fs.promises.mkdir(path.dirname(this.options.outputPath), { recursive: true });
+    await fs.promises.writeFile(
+      this.options.outputPath,
+      JSON.stringify(outputData, null, 2),
+      'utf8'
+    );
+    
+    console.log(`JSON report saved to ${this.options.outputPath}`);
+  }
+  
+  /**
+   * Generate HTML site report file
+   */
+  async generateSiteHtmlReport(report: SiteReport): Promise<void> {
+    if (!this.options.outputPath) {
+      throw new Error('Output path is required for HTML reports');
+    }
+    
+    const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Grammar Check Results for ${report.seedUrl}</title>
+      <style>${HTML_STYLES}</style>
+    </head>
+    <body>
+      <h1>Grammar Check Results</h1>
+      <div class="summary">
+        <p><strong>Site:</strong> ${report.seedUrl}</p>
+        <p><strong>Pages Checked:</strong> ${report.pagesChecked}</p>
+        <p><strong>Total Issues:</strong> ${report.totalErrors}${this.suppressedNote(report.suppressedErrors)}</p>
+        ${report.totalErrors > 0 ? `<p><strong>Breakdown:</strong> ${this.describeCounts(report.pages.flatMap(page => page.errors))}</p>` : ''}
+        <p><strong>Date:</strong> ${new Date().toLocaleString()}</p>
+      </div>
+      
+      ${report.pages.map(page => `
+        <div class="page">
+          <h2>${page.url} (${page.totalErrors} issues)</h2>
+          ${page.readability ? `<p><strong>Readability:</strong> ${this.describeReadability(page.readability)}</p>` : ''}
+          ${this.renderHtmlErrors(page.errors)}
+          ${this.renderHtmlUnchecked(page.unchecked, 'h3')}
+          ${this.renderHtmlFixes(page.url, page.fixes)}
+        </div>
+      `).join('')}
+      
+      ${report.failures.length > 0 ? `
+        <h2>Pages That Could Not Be Checked:</h2>
+        <ul>
+          ${report.failures.map(failure => `<li class="failure">${failure.url}: ${failure.error}</li>`).join('')}
+        </ul>
+      ` : ''}
+    </body>
+    </html>
+    `;
+    
+    await fs.promises.mkdir(path.dirname(this.options.outputPath), { recursive: true });
+    await fs.promises.writeFile(this.options.outputPath, html, 'utf8');
+    
+    console.log(`HTML report saved to ${this.options.outputPath}`);
+  }
+  
+  /**
+   * Generate Markdown site report file
+   */
+  async generateSiteMarkdownReport(report: SiteReport): Promise<void> {
+    if (!this.options.outputPath) {
+      throw new Error('Output path is required for Markdown reports');
+    }
+    
+    const markdown = `
+# Grammar Check Results for ${report.seedUrl}
+
+**Pages Checked:** ${report.pagesChecked}  
+**Total Issues:** ${report.totalErrors}${this.suppressedNote(report.suppressedErrors)}  
+${report.totalErrors > 0 ? `**Breakdown:** ${this.describeCounts(report.pages.flatMap(page => page.errors))}  \n` : ''}**Date:** ${new Date().toLocaleString()}
+
+${report.pages.map(page => `
+## ${page.url} (${page.totalErrors} issues)
+${page.readability ? `\n**Readability:** ${this.describeReadability(page.readability)}\n` : ''}
+${this.renderMarkdownErrors(page.errors, '###')}
+${this.renderMarkdownUnchecked(page.unchecked, '###')}
+${this.renderMarkdownFixes(page.url, page.fixes)}
+`).join('\n')}
+
+${report.failures.length > 0 ? `
+## Pages That Could Not Be Checked:
+
+${report.failures.map(failure => `- ${failure.url}: ${failure.error}`).join('\n')}
+` : ''}
+    `;
+    
+    await fs.promises.mkdir(path.dirname(this.options.outputPath), { recursive: true });
+    await fs.promises.writeFile(this.options.outputPath, markdown, 'utf8');
+    
+    console.log(`Markdown report saved to ${this.options.outputPath}`);
+  }
+  
+  /**
+   * Write a report that was rendered in full to the output path
+   */
+  private async writeReport(format: string, content: string): Promise<void> {
+    if (!this.options.outputPath) {
+      throw new Error(`Output path is required for ${format} reports`);
+    }
+    
+    await fs.promises.mkdir(path.dirname(this.options.outputPath), { recursive: true });
+    await fs.promises.writeFile(this.options.outputPath, content, 'utf8');
+    
+    console.log(`${format} report saved to ${this.options.outputPath}`);
+  }
+  
+  /**
+   * Render a comparison of two runs as an HTML page
+   */
+  private renderHtmlDiff(diff: ReportDiff): string {
+    return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Grammar Check Comparison</title>
+      <style>${HTML_STYLES}</style>
+    </head>
+    <body>
+      <h1>Grammar Check Comparison</h1>
+      <div class="summary">
+        <p><strong>Before:</strong> ${diff.before}</p>
+        <p><strong>After:</strong> ${diff.after}</p>
+        <p><strong>Changes:</strong> ${this.describeDiffTotals(diff)}</p>
+        <p><strong>Date:</strong> ${new Date().toLocaleString()}</p>
+      </div>
+      
+      ${diff.pages.map(page => `
+        <div class="page">
+          <h2>${page.url} (${this.describePageDiff(page)})</h2>
+          ${page.new.length > 0 ? `<h3>New Issues:</h3>${this.renderHtmlErrors(page.new)}` : ''}
+          ${page.resolved.length > 0 ? `
+            <h3>Resolved Issues:</h3>
+            <ul>
+              ${page.resolved.map(finding => `<li class="resolved">${this.describeComparedFinding(finding)}</li>`).join('')}
+            </ul>
+          ` : ''}
+          ${page.persisting.length > 0 ? `
+            <h3>Unchanged Issues:</h3>
+            <ul>
+              ${page.persisting.map(finding => `<li class="persisting">${this.describeComparedFinding(finding)}</li>`).join('')}
+            </ul>
+          ` : ''}
+        </div>
+      `).join('')}
+    </body>
+    </html>
+    `;
+  }
+  
+  /**
+   * Render a comparison of two runs as a Markdown document
+   */
+  private renderMarkdownDiff(diff: ReportDiff): string {
+    return `
+# Grammar Check Comparison
+
+**Before:** ${diff.before}  
+**After:** ${diff.after}  
+**Changes:** ${this.describeDiffTotals(diff)}  
+**Date:** ${new Date().toLocaleString()}
+
+${diff.pages.map(page => `
+## ${page.url} (${this.describePageDiff(page)})
+${page.new.length > 0 ? `
+### New Issues:
+
+${this.renderMarkdownErrors(page.new, '####')}` : ''}${page.resolved.length > 0 ? `
+### Resolved Issues:
+
+${page.resolved.map(finding => `- ${this.describeComparedFinding(finding)}`).join('\n')}
+` : ''}${page.persisting.length > 0 ? `
+### Unchanged Issues:
+
+${page.persisting.map(finding => `- ${this.describeComparedFinding(finding)}`).join('\n')}
+` : ''}`).join('\n')}
+    `;
+  }
+  
+  /**
+   * Render a list of issues as HTML blocks
+   */
+  private renderHtmlErrors(errors: GrammarError[]): string {
+    const multilingual = this.isMultilingual(errors);
+    return this.groupFindings(errors).map(({ error, label, categoryLabel }, index) => `
+        ${label ? `<h3 class="severity">${label}</h3>` : ''}
+        ${categoryLabel ? `<h4 class="category">${categoryLabel}</h4>` : ''}
+        <div class="error ${error.severity}">
+          <h3>Issue #${index + 1}: ${error.message}</h3>
+          <div class="context">${error.context}</div>
+          <p class="suggestions"><strong>Suggestions:</strong> ${error.suggestions.join(', ')}</p>
+          <p class="rule"><strong>Rule ID:</strong> ${error.ruleId} (${this.describeClassification(error)})</p>
+          ${this.sourceLabel(error) ? `<p class="rule"><strong>Source:</strong> ${this.sourceLabel(error)}</p>` : ''}
+          ${multilingual && error.language ? `<p class="rule"><strong>Language:</strong> ${error.language}</p>` : ''}
+          ${error.hidden ? '<p class="rule"><strong>Hidden:</strong> yes, the text is not shown until the user reveals it</p>' : ''}
+          ${error.line ? `<p class="rule"><strong>Line:</strong> ${error.line}, column ${error.column}</p>` : ''}
+          ${error.location ? `<p class="rule"><strong>Element:</strong> <code>${error.location.selector}</code> (${error.location.xpath})</p>` : ''}
+          ${error.screenshot ? `<a class="screenshot" href="${this.reportRelativePath(error.screenshot)}"><img src="${this.reportRelativePath(error.screenshot)}" alt="Screenshot of issue #${index + 1}"></a>` : ''}
+        </div>
+      `).join('');
+  }
+  
+  /**
+   * Render the text no checks were available for as an HTML list
+   */
+  private renderHtmlUnchecked(unchecked: UncheckedText[] = [], heading: string): string {
+    if (unchecked.length === 0) return '';
+    
+    return `
+        <${heading}>Unchecked Text in Unsupported Languages:</${heading}>
+        <ul>
+          ${unchecked.map(item => `<li class="unchecked">${this.describeUnchecked(item)}</li>`).join('')}
+        </ul>
+      `;
+  }
+  
+  /**
+   * Render the fixes made to a local file as an HTML list
+   */
+  private renderHtmlFixes(url: string, fixes?: FixSummary): string {
+    if (!fixes || fixes.applied.length + fixes.skipped.length === 0) return '';
+    
+    return `
+        <h3>${this.describeFixes(fixes)}:</h3>
+        <ul>
+          ${[...fixes.applied, ...fixes.skipped].map(fix => `<li>${this.describeFix(url, fix)}</li>`).join('')}
+        </ul>
+      `;
+  }
+  
+  /**
+   * Render the text no checks were available for as a Markdown list
+   */
+  private renderMarkdownUnchecked(unchecked: UncheckedText[] = [], heading: string): string {
+    if (unchecked.length === 0) return '';
+    
+    return `
+${heading} Unchecked Text in Unsupported Languages:
+
+${unchecked.map(item => `- ${this.describeUnchecked(item)}`).join('\n')}
+`;
+  }
+  
+  /**
+   * Render the fixes made to a local file as a Markdown list
+   */
+  private renderMarkdownFixes(url: string, fixes?: FixSummary): string {
+    if (!fixes || fixes.applied.length + fixes.skipped.length === 0) return '';
+    
+    return `
+### ${this.describeFixes(fixes)}:
+
+${[...fixes.applied, ...fixes.skipped].map(fix => `- ${this.describeFix(url, fix)}`).join('\n')}
+`;
+  }
+  
+  /**
+   * Whether findings were checked in more than one language, so each is worth labelling
+   */
+  private isMultilingual(errors: GrammarError[]): boolean {
+    return new Set(errors.map(error => error.language).filter(Boolean)).size > 1;
+  }
+  
+  /**
+   * Issues ordered by severity, then category, then text source, labelled
+   * where each severity and each category within it starts
+   */
+  private groupFindings(errors: GrammarError[]): { error: GrammarError; label?: string; categoryLabel?: string }[] {
+    const order = Object.keys(TEXT_SOURCE_PROFILES);
+    const sourceOf = (error: GrammarError) => error.source || 'body';
+    const sorted = [...errors].sort((a, b) =>
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+      CATEGORIES.indexOf(a.category) - CATEGORIES.indexOf(b.category) ||
+      order.indexOf(sourceOf(a)) - order.indexOf(sourceOf(b))
+    );
+    
+    return sorted.map((error, index) => {
+      const previous = sorted[index - 1];
+      const newSeverity = !previous || previous.severity !== error.severity;
+      return {
+        error,
+        label: newSeverity ? SEVERITY_HEADINGS[error.severity] : undefined,
+        categoryLabel: newSeverity || previous.category !== error.category ? CATEGORY_HEADINGS[error.category] : undefined
+      };
+    });
+  }
+  
+  /**
+   * Path to a file as seen from the report, for links and images
+   */
+  private reportRelativePath(filePath: string): string {
+    const reportDir = path.dirname(path.resolve(this.options.outputPath || '.'));
+    return path.relative(reportDir, path.resolve(filePath)).split(path.sep).join('/');
+  }
+  
+  /**
+   * Render a list of issues as Markdown sections under the given heading level
+   */
+  private renderMarkdownErrors(errors: GrammarError[], heading: string): string {
+    const multilingual = this.isMultilingual(errors);
+    return this.groupFindings(errors).map(({ error, label, categoryLabel }, index) => `${label ? `
+**${label}**
+` : ''}${categoryLabel ? `
+*${categoryLabel}*
+` : ''}
+${heading} Issue #${index + 1}: ${error.message}
+
+**Context:** \`${error.context}\`  
+**Suggestions:** ${error.suggestions.join(', ')}  
+**Rule ID:** ${error.ruleId} (${this.describeClassification(error)})${this.sourceLabel(error) ? `  
+**Source:** ${this.sourceLabel(error)}` : ''}${multilingual && error.language ? `  
+**Language:** ${error.language}` : ''}${error.hidden ? `  
+**Hidden:** yes, the text is not shown until the user reveals it` : ''}${error.line ? `  
+**Line:** ${error.line}, column ${error.column}` : ''}${error.location ? `  
+**Element:** \`${error.location.selector}\` (\`${error.location.xpath}\`)` : ''}${error.screenshot ? `  
+**Screenshot:** [${this.reportRelativePath(error.screenshot)}](${this.reportRelativePath(error.screenshot)})` : ''}
+`).join('\n');
+  }
+}
@@ -0,0 +1,43 @@
+import nlp from 'compromise';
+import { Rule, RuleContext, RuleFinding } from '../types';
+
+// Sentences with at least this many -ly adverbs are reported
+const MAX_ADVERBS = 3;
+
+/**
+ * Sentences that lean on -ly adverbs ("quickly and very carefully and
+ * really honestly") instead of stronger verbs
+ */
+const adverbOveruse: Rule = {
+  id: 'ADVERB_OVERUSE',
+  description: 'Sentence uses many -ly adverbs',
+  severity: 'info',
+  category: 'style',
+  confidence: 0.7,
+  languages: ['en'],
+  check(text: string, context: RuleContext): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+
+    for (const sentence of context.splitSentences(text)) {
+      const adverbs = (nlp(sentence.text).match('#Adverb').out('array') as string[])
+        .map(adverb => adverb.replace(/[^\p{L}]+$/u, ''))
+        .filter(adverb => /ly$/i.test(adverb));
+      if (adverbs.length < MAX_ADVERBS) continue;
+
+      errors.push({
+        message: `Sentence has ${adverbs.length} adverbs: ${adverbs.join(', ')}`,
+        context: sentence.text,
+        suggestions: ['Replace verb-adverb pairs with a more precise verb', 'Drop adverbs that add no meaning'],
+        ruleId: 'ADVERB_OVERUSE',
+        position: {
+          offset: sentence.offset,
+          length: sentence.text.length
+        }
+      });
+    }
+
+    return errors;
+  }
+};
+
+export default adverbOveruse;
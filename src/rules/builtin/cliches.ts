@@ -0,0 +1,46 @@
+import { phraseRule } from '../phraseRule';
+
+/**
+ * Stock phrases that say little, common in marketing copy
+ */
+export default phraseRule({
+  id: 'CLICHE',
+  description: 'Cliché or stock phrase',
+  severity: 'info',
+  category: 'style',
+  confidence: 0.9,
+  languages: ['en'],
+  message: phrase => `"${phrase}" is a cliché`,
+  phrases: {
+    'at the end of the day': ['ultimately', 'in the end'],
+    'think outside the box': ['think creatively'],
+    'outside the box': ['creative', 'unconventional'],
+    'game changer': ['Say what it changes'],
+    'game-changer': ['Say what it changes'],
+    'cutting edge': ['new', 'advanced'],
+    'cutting-edge': ['new', 'advanced'],
+    'state of the art': ['current', 'advanced'],
+    'state-of-the-art': ['current', 'advanced'],
+    'best of breed': ['Say what makes it better'],
+    'world class': ['Say what makes it better'],
+    'world-class': ['Say what makes it better'],
+    'low-hanging fruit': ['quick wins', 'easy tasks'],
+    'low hanging fruit': ['quick wins', 'easy tasks'],
+    'move the needle': ['make a difference', 'improve'],
+    'paradigm shift': ['major change'],
+    'synergy': ['cooperation', 'combined effect'],
+    'going forward': ['from now on', 'in future'],
+    'touch base': ['talk', 'meet'],
+    'circle back': ['return to', 'follow up'],
+    'take it to the next level': ['improve it'],
+    'needle in a haystack': ['hard to find'],
+    'last but not least': ['finally'],
+    'at this point in time': ['now'],
+    'in this day and age': ['today', 'now'],
+    'each and every': ['each', 'every'],
+    'first and foremost': ['first'],
+    'seamless': ['smooth', 'Say what fits together'],
+    'one-stop shop': ['Say what is offered'],
+    'second to none': ['Say what makes it better']
+  }
+});
@@ -0,0 +1,17 @@
+import { regexRule } from '../regexRule';
+
+/**
+ * Sentences ending with prepositions (but not headings)
+ */
+export default regexRule({
+  id: 'HANGING_PREPOSITION',
+  description: 'Sentence ends with a preposition',
+  severity: 'info',
+  category: 'grammar',
+  confidence: 0.4,
+  languages: ['en'],
+  regex: /\b[A-Z][^.!?\n]{10,}(to|for|with|by|from|in|on|at|about|upon)[^.!?\n]*$/gm,
+  message: 'Sentence ends with a preposition',
+  suggestions: ['Complete the prepositional phrase with an object', 'Add proper punctuation'],
+  skip: (match, context) => context.isHeadingOrTitle(match) || context.isPrepositionInHeading(match)
+});
@@ -0,0 +1,18 @@
+import { regexRule } from '../regexRule';
+
+/**
+ * "Please note ... do not respond" style sentences that trail off
+ * before the object of the verb
+ */
+export default regexRule({
+  id: 'INCOMPLETE_TRANSITIVE_VERB',
+  description: 'Incomplete sentence missing object after transitive verb',
+  severity: 'error',
+  category: 'grammar',
+  confidence: 0.7,
+  languages: ['en'],
+  regex: /\b(please note|it is important to note).*\b(do not|does not|will not|cannot)\b.*\b(recognize|respond|reply|acknowledge)\b[^.!?\n]*$/gim,
+  message: 'Incomplete sentence missing object after transitive verb',
+  suggestions: ['Complete the sentence by specifying what is recognized or responded to', 'Add proper punctuation'],
+  skip: (match, context) => context.isHeadingOrTitle(match)
+});
@@ -0,0 +1,31 @@
+import { Rule } from '../types';
+import possibleIncompleteSentence from './possibleIncompleteSentence';
+import missingEndPunctuation from './missingEndPunctuation';
+import incompleteTransitiveVerb from './incompleteTransitiveVerb';
+import hangingPreposition from './hangingPreposition';
+import verbNounForm from './verbNounForm';
+import repeatedWord from './repeatedWord';
+import passiveVoice from './passiveVoice';
+import longSentence from './longSentence';
+import weaselWords from './weaselWords';
+import cliches from './cliches';
+import adverbOveruse from './adverbOveruse';
+
+/**
+ * Built-in rules, in the order they run. Earlier rules claim fragments
+ * first, so whole-sentence checks come before narrower pattern checks.
+ * Style rules come last and don't claim fragments.
+ */
+export const builtinRules: Rule[] = [
+  possibleIncompleteSentence,
+  missingEndPunctuation,
+  incompleteTransitiveVerb,
+  hangingPreposition,
+  verbNounForm,
+  repeatedWord,
+  passiveVoice,
+  longSentence,
+  weaselWords,
+  cliches,
+  adverbOveruse
+];
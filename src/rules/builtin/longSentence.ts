@@ -0,0 +1,37 @@
+import { countWords } from '../../textUtils';
+import { Rule, RuleContext, RuleFinding } from '../types';
+
+/**
+ * Sentences longer than the configured word limit (maxSentenceWords)
+ */
+const longSentence: Rule = {
+  id: 'LONG_SENTENCE',
+  description: 'Sentence is longer than the configured word limit',
+  severity: 'info',
+  category: 'style',
+  confidence: 1,
+  languages: ['en'],
+  check(text: string, context: RuleContext): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+
+    for (const sentence of context.splitSentences(text)) {
+      const words = countWords(sentence.text);
+      if (words <= context.maxSentenceWords) continue;
+
+      errors.push({
+        message: `Sentence has ${words} words; keep sentences under ${context.maxSentenceWords + 1}`,
+        context: sentence.text,
+        suggestions: ['Split the sentence in two', 'Move asides into a separate sentence'],
+        ruleId: 'LONG_SENTENCE',
+        position: {
+          offset: sentence.offset,
+          length: sentence.text.length
+        }
+      });
+    }
+
+    return errors;
+  }
+};
+
+export default longSentence;
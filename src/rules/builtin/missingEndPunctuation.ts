@@ -0,0 +1,59 @@
+import { Rule, RuleContext, RuleFinding } from '../types';
+
+/**
+ * Find content sentences that don't end with proper punctuation,
+ * skipping headings, list items and UI text
+ */
+const missingEndPunctuation: Rule = {
+  id: 'MISSING_END_PUNCTUATION',
+  description: 'Sentence does not end with a period, exclamation mark or question mark',
+  severity: 'warning',
+  category: 'punctuation',
+  confidence: 0.6,
+  languages: ['en'],
+  check(text: string, context: RuleContext): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+    
+    // Process each sentence, paragraph by paragraph, for incompleteness
+    for (const sentence of context.splitSentences(text)) {
+      // Skip very short sentences
+      if (sentence.text.length < 10) continue;
+      
+      // Skip if this fragment has already been processed
+      if (!context.claimFragment(sentence.text)) continue;
+      
+      // Skip sections that should not be grammar checked
+      if (context.shouldSkipText(sentence.text)) continue;
+      
+      // Skip if it's a heading or title
+      if (context.isHeadingOrTitle(sentence.text)) continue;
+      
+      // Check for ending punctuation
+      if (!sentence.text.match(/[.!?]$/)) {
+        // Check if it contains meaningful content (not just a UI element)
+        if (context.isContentSentence(sentence.text)) {
+          const end = sentence.offset + sentence.text.length;
+          errors.push({
+            message: 'Sentence does not end with proper punctuation',
+            context: sentence.text,
+            suggestions: ['Add appropriate ending punctuation (period, exclamation mark, or question mark)'],
+            ruleId: 'MISSING_END_PUNCTUATION',
+            position: {
+              offset: sentence.offset,
+              length: sentence.text.length
+            },
+            // A period is only a safe guess after a word at the end of a paragraph;
+            // a trailing colon, or a line break inside a paragraph, needs a person
+            replacements: /[\p{L}\p{N}]$/u.test(sentence.text) && /^[ \t]*(\n[ \t]*\n|$)/.test(text.slice(end))
+              ? [{ offset: sentence.text.length, length: 0, text: '.' }]
+              : undefined
+          });
+        }
+      }
+    }
+    
+    return errors;
+  }
+};
+
+export default missingEndPunctuation;
@@ -0,0 +1,45 @@
+import nlp from 'compromise';
+import { getSentenceAt } from '../../textUtils';
+import { Rule, RuleContext, RuleFinding } from '../types';
+
+/**
+ * Passive constructions such as "was written" or "mistakes were made",
+ * which hide who does the action
+ */
+const passiveVoice: Rule = {
+  id: 'PASSIVE_VOICE',
+  description: 'Sentence uses the passive voice',
+  severity: 'info',
+  category: 'style',
+  confidence: 0.7,
+  languages: ['en'],
+  check(text: string, context: RuleContext): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+    const matches: Array<{ text: string; offset: { start: number } }> = nlp(text)
+      .match('#Passive+')
+      .json({ offset: true });
+
+    for (const match of matches) {
+      // compromise includes trailing punctuation in the match
+      const phrase = match.text.replace(/[^\p{L}\p{N}]+$/u, '');
+      const sentence = getSentenceAt(text, match.offset.start, phrase.length);
+      if (!phrase.includes(' ') || context.isHeadingOrTitle(sentence)) continue;
+
+      errors.push({
+        message: `Passive voice: "${phrase}"`,
+        context: sentence,
+        suggestions: ['Rewrite in the active voice, naming who does the action'],
+        ruleId: 'PASSIVE_VOICE',
+        word: phrase,
+        position: {
+          offset: match.offset.start,
+          length: phrase.length
+        }
+      });
+    }
+
+    return errors;
+  }
+};
+
+export default passiveVoice;
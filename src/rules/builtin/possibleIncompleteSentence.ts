@@ -0,0 +1,36 @@
+import { Rule, RuleContext, RuleFinding } from '../types';
+
+/**
+ * Sentences that match one of the analyzer's incomplete patterns, such as a
+ * subordinate clause with no main clause or a list that never starts
+ */
+const possibleIncompleteSentence: Rule = {
+  id: 'POSSIBLE_INCOMPLETE_SENTENCE',
+  description: 'Sentence looks like a fragment',
+  severity: 'warning',
+  category: 'grammar',
+  confidence: 0.5,
+  languages: ['en'],
+  check(text: string, context: RuleContext): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+
+    for (const sentence of context.findIncompleteSentences(text)) {
+      if (context.isHeadingOrTitle(sentence.text) || !context.claimFragment(sentence.text)) continue;
+
+      errors.push({
+        message: 'Possible incomplete sentence or sentence fragment',
+        context: sentence.text,
+        suggestions: [sentence.suggestion, 'Add proper punctuation'],
+        ruleId: 'POSSIBLE_INCOMPLETE_SENTENCE',
+        position: {
+          offset: sentence.offset,
+          length: sentence.text.length
+        }
+      });
+    }
+
+    return errors;
+  }
+};
+
+export default possibleIncompleteSentence;
@@ -0,0 +1,57 @@
+import { getSurroundingText } from '../../textUtils';
+import { Rule, RuleFinding } from '../types';
+
+// Words that are correctly doubled, as in "had had" or "bye bye"
+const ALLOWED_REPEATS = new Set(['had', 'bye', 'no', 'very', 'ha', 'knock']);
+
+// Words that are only correctly doubled after certain words, matched against the text before the pair
+const CONTEXTUAL_REPEATS: Record<string, RegExp> = {
+  // "what it is is", "whatever the reason is is"
+  is: /\b(what|whatever|who|where|how|why)\s+(\S+\s+){1,3}$/i,
+  // "she said that that was fine", "the fact that that happened"
+  that: /\b(said|say|says|think|thinks|thought|know|knows|knew|believe|believes|believed|mean|means|meant|hope|hoped|claim|claimed|argue|argued|feel|felt|note|noted|show|shows|showed|suggest|suggests|suggested|seem|seems|seemed|appear|appears|appeared|ensure|ensures|fact|so|sure|such|true|clear|likely|possible)\s+$/i
+};
+
+/**
+ * The same word twice in a row, e.g. "the the"
+ */
+const repeatedWord: Rule = {
+  id: 'REPEATED_WORD',
+  description: 'The same word appears twice in a row',
+  severity: 'warning',
+  category: 'style',
+  confidence: 0.9,
+  languages: ['*'],
+  check(text: string): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+    // Only spaces and tabs between the words; a line break usually separates a heading
+    const regex = /(?<![\p{L}\p{N}'’-])([\p{L}\p{N}'’]+)[ \t]+\1(?![\p{L}\p{N}'’-])/giu;
+
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      const word = match[1];
+      if (ALLOWED_REPEATS.has(word.toLowerCase()) || /^\p{N}+$/u.test(word)) continue;
+
+      const allowedAfter = CONTEXTUAL_REPEATS[word.toLowerCase()];
+      if (allowedAfter && allowedAfter.test(text.slice(Math.max(0, match.index - 60), match.index))) continue;
+
+      errors.push({
+        message: `Repeated word: "${word} ${word}"`,
+        context: getSurroundingText(text, match.index, match[0].length),
+        suggestions: [word],
+        ruleId: 'REPEATED_WORD',
+        word: match[0],
+        position: {
+          offset: match.index,
+          length: match[0].length
+        },
+        // Drop the second copy and the space before it
+        replacements: [{ offset: word.length, length: match[0].length - word.length, text: '' }]
+      });
+    }
+
+    return errors;
+  }
+};
+
+export default repeatedWord;
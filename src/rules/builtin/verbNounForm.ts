@@ -0,0 +1,90 @@
+import { getSurroundingText } from '../../textUtils';
+import { Rule, RuleFinding } from '../types';
+
+// Phrasal verbs and the closed-up nouns made from them
+const FORMS: [string, string][] = [
+  ['log in', 'login'], ['log out', 'logout'], ['sign up', 'signup'], ['sign in', 'signin'],
+  ['set up', 'setup'], ['check out', 'checkout'], ['back up', 'backup']
+];
+
+const NOUNS = FORMS.map(([, noun]) => noun).join('|');
+const VERBS = FORMS.map(([verb]) => verb.replace(' ', '\\s+')).join('|');
+// Words that make the following form a noun, e.g. "login page", "sign up form"
+const NOUN_HEADS = 'page|screen|form|button|link|process|details|credentials|flow|wizard|guide|instructions|options?|files?|code|email';
+// The ones that are never the verb's object, so "sign up form" is a noun
+// while "back up code" and "set up options" are verbs
+const COMPOUND_HEADS = 'page|screen|form|button|flow|wizard';
+
+// Verbs and adjectives after which "to" starts an infinitive rather than a
+// prepositional phrase: "how to setup" but not "proceed to checkout"
+const INFINITIVE_LEADS = 'want|wants|wanted|need|needs|needed|how|able|unable|try|tries|tried|trying|going|have|has|had|forgot|remember';
+
+// "you can setup", "please login"; after an infinitive "to" or at the start of
+// a sentence only when a verb's object or preposition follows: "Login with Google"
+const NOUN_AS_VERB = new RegExp(
+  `(?:\\b(?:please|can|could|will|would|should|must|may|you|we|they|cannot|can't|don't|didn't|not)\\s+(${NOUNS})(?!\\s+(?:${NOUN_HEADS})\\b)`
+  + `|(?:\\b(?:${INFINITIVE_LEADS})\\s+to\\s+|^|[.!?]\\s+)(${NOUNS})(?=\\s+(?:to|with|into|using|in|now|here|your|the|a|an|for|and|below|above)\\b|[.!?,]|$))`,
+  'gim'
+);
+// "your log in", "the set up", "sign up form"; not "this" or "that", which
+// can be pronouns: "users that sign up"
+const VERB_AS_NOUN = new RegExp(
+  `\\b(?:(?:the|your|a|an|my|our|their)\\s+(${VERBS})\\b|(${VERBS})(?=\\s+(?:${COMPOUND_HEADS})\\b))`,
+  'gi'
+);
+
+/**
+ * Phrasal verbs written as nouns and nouns written as verbs: you "log in"
+ * on the "login" page
+ */
+const verbNounForm: Rule = {
+  id: 'VERB_NOUN_FORM',
+  description: 'Phrasal verb and noun forms mixed up, e.g. "login" used as a verb',
+  severity: 'warning',
+  category: 'grammar',
+  confidence: 0.7,
+  languages: ['en'],
+  check(text: string): RuleFinding[] {
+    const errors: RuleFinding[] = [];
+    const seen = new Set<number>();
+
+    const report = (form: string, offset: number, replacement: string, asVerb: boolean) => {
+      if (seen.has(offset)) return;
+      seen.add(offset);
+
+      errors.push({
+        message: asVerb
+          ? `"${form}" is a noun; use "${replacement}" as the verb`
+          : `"${form}" is a verb; use "${replacement}" as the noun`,
+        context: getSurroundingText(text, offset, form.length),
+        suggestions: [replacement],
+        ruleId: 'VERB_NOUN_FORM',
+        word: form,
+        position: { offset, length: form.length }
+      });
+    };
+
+    let match;
+    const nounAsVerb = new RegExp(NOUN_AS_VERB.source, NOUN_AS_VERB.flags);
+    while ((match = nounAsVerb.exec(text)) !== null) {
+      const form = match[1] || match[2];
+      const [verb] = FORMS.find(([, noun]) => noun === form.toLowerCase())!;
+      report(form, match.index + match[0].length - form.length, matchCase(verb, form), true);
+    }
+
+    const verbAsNoun = new RegExp(VERB_AS_NOUN.source, VERB_AS_NOUN.flags);
+    while ((match = verbAsNoun.exec(text)) !== null) {
+      const form = match[1] || match[2];
+      const [, noun] = FORMS.find(([verb]) => verb === form.toLowerCase().replace(/\s+/, ' '))!;
+      report(form, match.index + match[0].length - form.length, matchCase(noun, form), false);
+    }
+
+    return errors.sort((a, b) => a.position.offset - b.position.offset);
+  }
+};
+
+function matchCase(replacement: string, original: string): string {
+  return /^\p{Lu}/u.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+export default verbNounForm;
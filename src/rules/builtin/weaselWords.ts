@@ -0,0 +1,45 @@
+import { phraseRule } from '../phraseRule';
+
+/**
+ * Vague qualifiers and unattributed claims that weaken a statement
+ */
+export default phraseRule({
+  id: 'WEASEL_WORD',
+  description: 'Vague qualifier or unattributed claim',
+  severity: 'info',
+  category: 'style',
+  confidence: 0.8,
+  languages: ['en'],
+  message: phrase => `"${phrase}" weakens the statement`,
+  phrases: {
+    'very': ['Drop it, or use a stronger word'],
+    'really': ['Drop it, or use a stronger word'],
+    'extremely': ['Drop it, or use a stronger word'],
+    'quite': ['Drop it'],
+    'fairly': ['Drop it'],
+    'rather': ['Drop it'],
+    'somewhat': ['Drop it'],
+    'relatively': ['Compare with something specific'],
+    'basically': ['Drop it'],
+    'essentially': ['Drop it'],
+    'virtually': ['Drop it'],
+    'arguably': ['Make the argument'],
+    'clearly': ['Drop it; show why it is clear'],
+    'obviously': ['Drop it; show why it is obvious'],
+    'various': ['Name them, or give a number'],
+    'numerous': ['Give a number'],
+    'a number of': ['Give the number'],
+    'many people say': ['Name who says it'],
+    'experts say': ['Name the experts'],
+    'studies show': ['Cite the study'],
+    'it is believed': ['Say who believes it'],
+    'it is said': ['Say who says it'],
+    'some people': ['Say who']
+  },
+  // "rather than" and "quite a few" are idioms rather than hedges
+  skip: (phrase, sentence) => {
+    const lower = phrase.toLowerCase();
+    return (lower === 'rather' && /\brather\s+than\b/i.test(sentence))
+      || (lower === 'quite' && /\bquite\s+a\s+(few|bit|lot)\b/i.test(sentence));
+  }
+});
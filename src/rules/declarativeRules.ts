@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import { LineCounter, isMap, isSeq, parseDocument } from 'yaml';
+import { escapeRegExp, getSentenceAt, getSurroundingText } from '../textUtils';
+import { CATEGORIES, Category, Rule, RuleFinding, SEVERITIES, Severity } from './types';
+
+/**
+ * A rule as written in a YAML or JSON rules file
+ */
+export interface DeclarativeRuleDefinition {
+  id: string;
+  message: string;
+  description?: string;
+  // Either a regular expression...
+  regex?: string;
+  flags?: string;
+  // ...or a sequence of words, each a literal or a /regex/
+  tokens?: string[];
+  suggestion?: string;
+  replacement?: string;
+  severity?: Severity;
+  category?: Category;
+  // How likely a match is a real problem, from 0 to 1
+  confidence?: number;
+  languages?: string[];
+  // Matches whose sentence contains one of these (literal or /regex/) are ignored
+  exceptions?: string[];
+}
+
+const KNOWN_FIELDS = [
+  'id', 'message', 'description', 'regex', 'flags', 'tokens', 'suggestion',
+  'replacement', 'severity', 'category', 'confidence', 'languages', 'exceptions'
+];
+
+/**
+ * Load and validate a rules file. JSON is parsed as YAML, so both formats
+ * get the same line-numbered error messages. All problems are reported at once.
+ */
+export async function loadRulesFile(filePath: string): Promise<Rule[]> {
+  const source = await fs.promises.readFile(filePath, 'utf8');
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter });
+
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0];
+    const { line } = lineCounter.linePos(error.pos[0]);
+    throw new Error(`${filePath}:${line}: ${error.message.split('\n')[0]}`);
+  }
+
+  // Accept either a top-level list or { rules: [...] }
+  const root = doc.contents;
+  const list = isMap(root) ? root.get('rules', true) : root;
+  if (!isSeq(list)) {
+    throw new Error(`${filePath}:1: expected a list of rules or a "rules" key containing one`);
+  }
+
+  const problems: string[] = [];
+  const rules: Rule[] = [];
+  const seenIds = new Set<string>();
+
+  list.items.forEach((item, index) => {
+    const line = item && (item as any).range ? lineCounter.linePos((item as any).range[0]).line : 1;
+    const definition = (item as any)?.toJSON ? (item as any).toJSON() : item;
+    const label = `${filePath}:${line}: rule ${definition && definition.id ? `"${definition.id}"` : `#${index + 1}`}`;
+
+    const ruleProblems = validateDefinition(definition);
+    if (definition && typeof definition.id === 'string') {
+      if (seenIds.has(definition.id)) ruleProblems.push('duplicate rule ID');
+      seenIds.add(definition.id);
+    }
+
+    if (ruleProblems.length > 0) {
+      problems.push(...ruleProblems.map(problem => `${label}: ${problem}`));
+      return;
+    }
+
+    rules.push(createDeclarativeRule(definition));
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid rules file:\n  ${problems.join('\n  ')}`);
+  }
+
+  return rules;
+}
+
+/**
+ * Turn a validated definition into a rule
+ */
+export function createDeclarativeRule(definition: DeclarativeRuleDefinition): Rule {
+  const pattern = compilePattern(definition);
+  const exceptions = (definition.exceptions || []).map(exception => toMatcher(exception));
+  const suggestions = [definition.replacement, definition.suggestion]
+    .filter((value): value is string => Boolean(value));
+
+  return {
+    id: definition.id,
+    description: definition.description || definition.message,
+    severity: definition.severity || 'warning',
+    category: definition.category,
+    confidence: definition.confidence,
+    languages: definition.languages || ['*'],
+    check(text: string): RuleFinding[] {
+      const errors: RuleFinding[] = [];
+      const regex = new RegExp(pattern.source, pattern.flags);
+
+      let match;
+      while ((match = regex.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+          continue;
+        }
+
+        const sentence = getSentenceAt(text, match.index, match[0].length);
+        if (exceptions.some(matches => matches(sentence))) continue;
+
+        errors.push({
+          message: definition.message,
+          context: getSurroundingText(text, match.index, match[0].length),
+          suggestions,
+          ruleId: definition.id,
+          word: match[0],
+          position: {
+            offset: match.index,
+            length: match[0].length
+          },
+          replacements: definition.replacement !== undefined
+            ? [{ offset: 0, length: match[0].length, text: matchInitialCase(match[0], definition.replacement) }]
+            : undefined
+        });
+      }
+
+      return errors;
+    }
+  };
+}
+
+function validateDefinition(definition: any): string[] {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return ['expected a mapping with at least "id" and "message"'];
+  }
+
+  const problems: string[] = [];
+
+  for (const key of Object.keys(definition)) {
+    if (!KNOWN_FIELDS.includes(key)) problems.push(`unknown field "${key}"`);
+  }
+
+  if (typeof definition.id !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(definition.id)) {
+    problems.push('"id" is required and may only contain letters, digits, "_", "-" and "."');
+  }
+  if (typeof definition.message !== 'string' || !definition.message.trim()) {
+    problems.push('"message" is required');
+  }
+
+  const hasRegex = definition.regex !== undefined;
+  const hasTokens = definition.tokens !== undefined;
+  if (hasRegex === hasTokens) {
+    problems.push('exactly one of "regex" or "tokens" is required');
+  }
+  if (hasRegex && typeof definition.regex !== 'string') {
+    problems.push('"regex" must be a string');
+  }
+  if (hasTokens && (!Array.isArray(definition.tokens) || definition.tokens.length === 0 ||
+      definition.tokens.some((token: unknown) => typeof token !== 'string' || !token))) {
+    problems.push('"tokens" must be a non-empty list of strings');
+  }
+  if (definition.flags !== undefined && (typeof definition.flags !== 'string' || !/^[imsu]*$/.test(definition.flags))) {
+    problems.push('"flags" may only contain i, m, s and u');
+  }
+
+  for (const field of ['suggestion', 'replacement', 'description']) {
+    if (definition[field] !== undefined && typeof definition[field] !== 'string') {
+      problems.push(`"${field}" must be a string`);
+    }
+  }
+  if (definition.severity !== undefined && !SEVERITIES.includes(definition.severity)) {
+    problems.push(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (definition.category !== undefined && !CATEGORIES.includes(definition.category)) {
+    problems.push(`"category" must be one of ${CATEGORIES.join(', ')}`);
+  }
+  if (definition.confidence !== undefined && !isConfidence(definition.confidence)) {
+    problems.push('"confidence" must be a number from 0 to 1');
+  }
+  for (const field of ['languages', 'exceptions']) {
+    if (definition[field] !== undefined &&
+        (!Array.isArray(definition[field]) || definition[field].some((value: unknown) => typeof value !== 'string'))) {
+      problems.push(`"${field}" must be a list of strings`);
+    }
+  }
+
+  // Only try compiling once the shape is right
+  if (problems.length === 0) {
+    try {
+      compilePattern(definition);
+      (definition.exceptions || []).forEach((exception: string) => toMatcher(exception));
+    } catch (error) {
+      problems.push(`invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Compile the regex or token sequence; rules are case-insensitive unless flags say otherwise
+ */
+function compilePattern(definition: DeclarativeRuleDefinition): RegExp {
+  const flags = `${definition.flags ?? 'i'}g`;
+
+  if (definition.regex !== undefined) {
+    return new RegExp(definition.regex, flags);
+  }
+
+  const tokens = definition.tokens!.map(token =>
+    isRegexLiteral(token) ? `(?:${token.slice(1, -1)})` : escapeRegExp(token)
+  );
+  return new RegExp(`(?<![\\p{L}\\p{N}])${tokens.join('\\s+')}(?![\\p{L}\\p{N}])`, flags.includes('u') ? flags : `${flags}u`);
+}
+
+function toMatcher(exception: string): (text: string) => boolean {
+  if (isRegexLiteral(exception)) {
+    const regex = new RegExp(exception.slice(1, -1), 'i');
+    return text => regex.test(text);
+  }
+
+  const needle = exception.toLowerCase();
+  return text => text.toLowerCase().includes(needle);
+}
+
+function isRegexLiteral(value: string): boolean {
+  return value.length > 2 && value.startsWith('/') && value.endsWith('/');
+}
+
+function isConfidence(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Keep the capital letter of the replaced text, e.g. "E-mail" -> "Email"
+ */
+function matchInitialCase(original: string, replacement: string): string {
+  return /^\p{Lu}/u.test(original) && !/^\p{Lu}/u.test(replacement)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
@@ -0,0 +1,72 @@
+import { escapeRegExp, getSurroundingText } from '../textUtils';
+import { Category, Rule, RuleContext, RuleFinding, Severity } from './types';
+
+export interface PhraseRuleDefinition {
+  id: string;
+  description: string;
+  severity: Severity;
+  category?: Category;
+  confidence?: number;
+  languages: string[];
+  // Phrases to flag, matched as whole words in any casing, with suggested alternatives
+  phrases: Record<string, string[]>;
+  message: (phrase: string) => string;
+  // Extra per-match filter; return true to drop the match
+  skip?: (phrase: string, sentence: string, context: RuleContext) => boolean;
+}
+
+/**
+ * Build a rule that reports every occurrence of a list of words and phrases
+ */
+export function phraseRule(definition: PhraseRuleDefinition): Rule {
+  const suggestions = new Map(
+    Object.entries(definition.phrases).map(([phrase, alternatives]) => [normalize(phrase), alternatives])
+  );
+  // Longest first, so "very unique" wins over "very"
+  const alternation = Object.keys(definition.phrases)
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+'))
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}'’-])(?:${alternation})(?![\\p{L}\\p{N}'’-])`, 'giu');
+
+  return {
+    id: definition.id,
+    description: definition.description,
+    severity: definition.severity,
+    category: definition.category,
+    confidence: definition.confidence,
+    languages: definition.languages,
+    check(text: string, context: RuleContext): RuleFinding[] {
+      const errors: RuleFinding[] = [];
+      if (!alternation) return errors;
+
+      // Copy the regex so concurrent checks never share lastIndex state
+      const regex = new RegExp(pattern.source, pattern.flags);
+
+      let match;
+      while ((match = regex.exec(text)) !== null) {
+        const phrase = match[0];
+        const surrounding = getSurroundingText(text, match.index, phrase.length);
+        if (definition.skip && definition.skip(phrase, surrounding, context)) continue;
+
+        errors.push({
+          message: definition.message(phrase),
+          context: surrounding,
+          suggestions: suggestions.get(normalize(phrase)) || [],
+          ruleId: definition.id,
+          word: phrase,
+          position: {
+            offset: match.index,
+            length: phrase.length
+          }
+        });
+      }
+
+      return errors;
+    }
+  };
+}
+
+function normalize(phrase: string): string {
+  return phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,63 @@
+import { Category, Rule, RuleContext, RuleFinding, Severity } from './types';
+
+export interface RegexRuleDefinition {
+  id: string;
+  description: string;
+  severity: Severity;
+  category?: Category;
+  confidence?: number;
+  languages: string[];
+  regex: RegExp;
+  message: string;
+  suggestions: string[];
+  // Extra per-match filter, e.g. to ignore headings; return true to drop the match
+  skip?: (match: string, context: RuleContext) => boolean;
+}
+
+/**
+ * Build a rule that reports every match of a regular expression
+ */
+export function regexRule(definition: RegexRuleDefinition): Rule {
+  return {
+    id: definition.id,
+    description: definition.description,
+    severity: definition.severity,
+    category: definition.category,
+    confidence: definition.confidence,
+    languages: definition.languages,
+    check(text: string, context: RuleContext): RuleFinding[] {
+      const errors: RuleFinding[] = [];
+      // Copy the regex so concurrent checks never share lastIndex state
+      const regex = new RegExp(definition.regex.source, definition.regex.flags.includes('g') ? definition.regex.flags : `${definition.regex.flags}g`);
+
+      let match;
+      while ((match = regex.exec(text)) !== null) {
+        // Zero-length matches would otherwise loop forever
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+          continue;
+        }
+
+        const fragment = match[0].trim();
+
+        // Skip if this fragment has already been processed
+        if (!context.claimFragment(fragment)) continue;
+
+        if (definition.skip && definition.skip(fragment, context)) continue;
+
+        errors.push({
+          message: definition.message,
+          context: fragment,
+          suggestions: definition.suggestions,
+          ruleId: definition.id,
+          position: {
+            offset: match.index,
+            length: match[0].length
+          }
+        });
+      }
+
+      return errors;
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CATEGORIES, Rule, SEVERITIES } from './types';
+import { builtinRules } from './builtin';
+import { loadRulesFile } from './declarativeRules';
+
+export interface RuleRegistryOptions {
+  // Directories of rule modules
+  ruleDirs?: string[];
+  // YAML or JSON files of declarative rules
+  rulesFiles?: string[];
+}
+
+export class RuleRegistry {
+  private rules: Map<string, Rule>;
+
+  constructor() {
+    this.rules = new Map<string, Rule>();
+  }
+
+  /**
+   * Create a registry with the built-in rules plus any rule modules
+   * and declarative rules files given
+   */
+  static async create(options: RuleRegistryOptions = {}): Promise<RuleRegistry> {
+    const registry = new RuleRegistry();
+    builtinRules.forEach(rule => registry.register(rule));
+
+    for (const dir of options.ruleDirs || []) {
+      await registry.loadDirectory(dir);
+    }
+    for (const file of options.rulesFiles || []) {
+      await registry.loadRulesFile(file);
+    }
+
+    return registry;
+  }
+
+  /**
+   * Add a rule, rejecting malformed rules and duplicate IDs
+   */
+  register(rule: Rule, source = 'rule'): void {
+    const problems = validateRule(rule);
+    if (problems.length > 0) {
+      throw new Error(`Invalid ${source}: ${problems.join('; ')}`);
+    }
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Invalid ${source}: a rule with ID "${rule.id}" is already registered`);
+    }
+
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Load every rule module (.js, or .ts when running under ts-node) in a directory.
+   * A module may export a rule or an array of rules, as default or as `rule`/`rules`.
+   */
+  async loadDirectory(dir: string): Promise<void> {
+    const resolvedDir = path.resolve(dir);
+    const entries = await fs.promises.readdir(resolvedDir);
+    const canLoadTypeScript = Boolean(require.extensions['.ts']);
+
+    const files = entries
+      .filter(file => !file.endsWith('.d.ts'))
+      .filter(file => file.endsWith('.js') || (canLoadTypeScript && file.endsWith('.ts')))
+      .sort();
+
+    for (const file of files) {
+      const modulePath = path.join(resolvedDir, file);
+      const loaded = require(modulePath);
+      const exported = loaded.default ?? loaded.rules ?? loaded.rule ?? loaded;
+      const rules: Rule[] = Array.isArray(exported) ? exported : [exported];
+
+      rules.forEach(rule => this.register(rule, `rule module ${modulePath}`));
+    }
+  }
+
+  /**
+   * Load regex and token-pattern rules from a YAML or JSON file
+   */
+  async loadRulesFile(filePath: string): Promise<void> {
+    const rules = await loadRulesFile(filePath);
+    rules.forEach(rule => this.register(rule, `rule in ${filePath}`));
+  }
+
+  get(id: string): Rule | undefined {
+    return this.rules.get(id);
+  }
+
+  getAll(): Rule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Rules that apply to a language, in registration order, minus disabled ones
+   */
+  getRulesFor(language: string, disabledRules: string[] = []): Rule[] {
+    const disabled = new Set(disabledRules);
+    const primary = language.toLowerCase().split(/[-_]/)[0];
+
+    return this.getAll().filter(rule => {
+      if (disabled.has(rule.id)) return false;
+      return rule.languages.some(lang => {
+        const normalized = lang.toLowerCase();
+        return normalized === '*' || normalized === primary || normalized === language.toLowerCase();
+      });
+    });
+  }
+}
+
+function validateRule(rule: any): string[] {
+  const problems: string[] = [];
+
+  if (!rule || typeof rule !== 'object') return ['expected a rule object'];
+  if (typeof rule.id !== 'string' || !rule.id) problems.push('missing "id"');
+  if (typeof rule.description !== 'string') problems.push(`rule ${rule.id || '?'} is missing "description"`);
+  if (!SEVERITIES.includes(rule.severity)) {
+    problems.push(`rule ${rule.id || '?'} has invalid severity "${rule.severity}" (expected ${SEVERITIES.join(', ')})`);
+  }
+  if (rule.category !== undefined && !CATEGORIES.includes(rule.category)) {
+    problems.push(`rule ${rule.id || '?'} has invalid category "${rule.category}" (expected ${CATEGORIES.join(', ')})`);
+  }
+  if (rule.confidence !== undefined && !(typeof rule.confidence === 'number' && rule.confidence >= 0 && rule.confidence <= 1)) {
+    problems.push(`rule ${rule.id || '?'} has invalid confidence "${rule.confidence}" (expected a number from 0 to 1)`);
+  }
+  if (!Array.isArray(rule.languages) || rule.languages.length === 0) {
+    problems.push(`rule ${rule.id || '?'} is missing "languages"`);
+  }
+  if (typeof rule.check !== 'function') problems.push(`rule ${rule.id || '?'} is missing a "check" function`);
+
+  return problems;
+}
@@ -0,0 +1,58 @@
+import { GrammarError } from '../grammarChecker';
+import { TextSourceKind } from '../textSources';
+import { IncompleteSentence, Sentence } from '../sentenceAnalyzer';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+// What kind of problem a finding is; style findings are advice rather than mistakes
+export type Category = 'spelling' | 'grammar' | 'punctuation' | 'style' | 'consistency';
+
+// Most severe first
+export const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export const CATEGORIES: Category[] = ['spelling', 'grammar', 'punctuation', 'style', 'consistency'];
+
+// Used for rules that don't say how reliable they are
+export const DEFAULT_CONFIDENCE = 0.8;
+
+/**
+ * A finding as a rule reports it. Severity, category and confidence default
+ * to the rule's own.
+ */
+export type RuleFinding = Omit<GrammarError, 'severity' | 'category' | 'confidence'>
+  & Partial<Pick<GrammarError, 'severity' | 'category' | 'confidence'>>;
+
+/**
+ * Helpers and page details handed to every rule
+ */
+export interface RuleContext {
+  url: string;
+  language: string;
+  // Where the text comes from; rules can relax for labels and alt text
+  textSource: TextSourceKind;
+  // Sentences with more words than this are reported as too long
+  maxSentenceWords: number;
+  isHeadingOrTitle(text: string): boolean;
+  shouldSkipText(text: string): boolean;
+  isContentSentence(text: string): boolean;
+  isPrepositionInHeading(text: string): boolean;
+  // Sentences paragraph by paragraph, with offsets into the text
+  splitSentences(text: string): Sentence[];
+  // Sentences matching the configured incomplete patterns
+  findIncompleteSentences(text: string): IncompleteSentence[];
+  // Returns false if the fragment was already claimed by an earlier rule, so it isn't reported twice
+  claimFragment(fragment: string): boolean;
+}
+
+export interface Rule {
+  id: string;
+  description: string;
+  severity: Severity;
+  // Defaults to "grammar"
+  category?: Category;
+  // How likely a finding is a real problem, from 0 to 1 (default: DEFAULT_CONFIDENCE)
+  confidence?: number;
+  // Language codes the rule applies to ("en" matches "en-US"); "*" for every language
+  languages: string[];
+  check(text: string, context: RuleContext): RuleFinding[];
+}
@@ -0,0 +1,157 @@
+import { CheckResult } from './grammarChecker';
+import { fingerprintFinding } from './baseline';
+import { ComparedFinding, ReportDiff } from './reportDiff';
+import { Severity } from './rules/types';
+import { TEXT_SOURCE_PROFILES } from './textSources';
+
+// Read at runtime so it works from both src/ and dist/
+const { name: TOOL_NAME, version: TOOL_VERSION } = require('../package.json');
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+/**
+ * The parts of a SARIF 2.1.0 log this tool writes
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      rules: SarifRule[];
+    };
+  };
+  artifacts: { location: { uri: string } }[];
+  results: SarifResult[];
+}
+
+interface SarifRule {
+  id: string;
+  defaultConfiguration: { level: string };
+  properties: { category: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: object[];
+  partialFingerprints: Record<string, string>;
+  baselineState?: BaselineState;
+  properties: Record<string, unknown>;
+}
+
+type BaselineState = 'new' | 'unchanged' | 'absent';
+
+interface SarifEntry {
+  url: string;
+  finding: ComparedFinding;
+  baselineState?: BaselineState;
+}
+
+/**
+ * Convert checked pages to a SARIF log, one artifact per page URL. Findings
+ * use the baseline fingerprint, so dashboards track them across runs.
+ */
+export function toSarifLog(pages: CheckResult[]): SarifLog {
+  return buildLog(
+    pages.map(page => page.url),
+    pages.flatMap(page => page.errors.map(finding => ({ url: page.url, finding })))
+  );
+}
+
+/**
+ * Convert a comparison of two runs to a SARIF log, marking each result as
+ * new, unchanged or absent (resolved)
+ */
+export function toSarifDiffLog(diff: ReportDiff): SarifLog {
+  return buildLog(
+    diff.pages.map(page => page.url),
+    diff.pages.flatMap(page => [
+      ...page.new.map(finding => ({ url: page.url, finding, baselineState: 'new' as const })),
+      ...page.persisting.map(finding => ({ url: page.url, finding, baselineState: 'unchanged' as const })),
+      ...page.resolved.map(finding => ({ url: page.url, finding, baselineState: 'absent' as const }))
+    ])
+  );
+}
+
+function buildLog(urls: string[], entries: SarifEntry[]): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const entry of entries) {
+    const { ruleId, severity, category } = entry.finding;
+    if (!ruleIndexes.has(ruleId)) {
+      ruleIndexes.set(ruleId, rules.length);
+      rules.push({
+        id: ruleId,
+        defaultConfiguration: { level: severity ? SARIF_LEVELS[severity] : 'warning' },
+        properties: { category: category || 'grammar' }
+      });
+    }
+
+    results.push(toSarifResult(entry, ruleIndexes.get(ruleId)!));
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, version: TOOL_VERSION, rules } },
+      artifacts: urls.map(uri => ({ location: { uri } })),
+      results
+    }]
+  };
+}
+
+function toSarifResult({ url, finding, baselineState }: SarifEntry, ruleIndex: number): SarifResult {
+  const source = finding.source || 'body';
+  const snippet = { text: finding.word || finding.context };
+  // Local files have a line and column; otherwise offsets are into the page's
+  // extracted body text. Other sources (titles, alt text) have no region, only
+  // the element they came from as a logical location.
+  const region = finding.line
+    ? { startLine: finding.line, startColumn: finding.column, snippet }
+    : source === 'body' && finding.position
+      ? { charOffset: finding.position.offset, charLength: finding.position.length, snippet }
+      : undefined;
+
+  return {
+    ruleId: finding.ruleId,
+    ruleIndex,
+    // Findings read from a baseline file carry no severity or message
+    level: finding.severity ? SARIF_LEVELS[finding.severity] : 'none',
+    message: { text: finding.message || `${finding.ruleId}: ${finding.context}` },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: url },
+        ...(region ? { region, contextRegion: { snippet: { text: finding.context } } } : {})
+      },
+      ...(finding.location ? {
+        logicalLocations: [{ fullyQualifiedName: finding.location.selector, kind: 'element' }]
+      } : {})
+    }],
+    partialFingerprints: { 'grammarFinding/v1': finding.fingerprint || fingerprintFinding(url, finding) },
+    baselineState,
+    properties: {
+      category: finding.category,
+      confidence: finding.confidence,
+      suggestions: finding.suggestions,
+      source: TEXT_SOURCE_PROFILES[source].label,
+      hidden: finding.hidden || undefined
+    }
+  };
+}
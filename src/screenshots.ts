@@ -0,0 +1,137 @@
+import { Page } from '@playwright/test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckResult } from './grammarChecker';
+
+export const DEFAULT_SCREENSHOT_DIR = 'screenshots';
+
+export interface ScreenshotOptions {
+  outputDir?: string;
+  // Space around the element so the outline is not cut off
+  padding?: number;
+}
+
+// Marks the overlay elements so they can be removed again
+const OVERLAY_ATTRIBUTE = 'data-grammar-highlight';
+
+/**
+ * Captures a screenshot of the element behind each finding, with the
+ * offending text outlined, and records the file on the finding
+ */
+export class ScreenshotCapturer {
+  private outputDir: string;
+  private padding: number;
+
+  constructor(options: ScreenshotOptions = {}) {
+    this.outputDir = options.outputDir || DEFAULT_SCREENSHOT_DIR;
+    this.padding = options.padding ?? 8;
+  }
+
+  /**
+   * Screenshot every located finding in a result. The page must still show
+   * the document the result was produced from.
+   */
+  async capture(page: Page, result: CheckResult): Promise<void> {
+    const located = result.errors.filter(error => error.location);
+    if (located.length === 0) return;
+
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const prefix = this.filePrefix(result.url);
+
+    for (const [index, error] of located.entries()) {
+      const { selector, start, end } = error.location!;
+      const filePath = path.join(this.outputDir, `${prefix}-${index + 1}.png`);
+
+      try {
+        const box = await this.highlight(page, selector, start, end);
+        // Head metadata and hidden elements have nothing to capture
+        if (!box || box.width === 0 || box.height === 0) continue;
+
+        // With fullPage the clip is in page coordinates, so no scrolling is needed
+        await page.screenshot({
+          path: filePath,
+          fullPage: true,
+          clip: {
+            x: Math.max(0, box.x - this.padding),
+            y: Math.max(0, box.y - this.padding),
+            width: box.width + this.padding * 2,
+            height: box.height + this.padding * 2
+          }
+        });
+        error.screenshot = filePath;
+      } catch (captureError) {
+        // A missing screenshot should never fail the check itself
+        console.warn(`Could not capture screenshot for ${selector}: ${captureError instanceof Error ? captureError.message : String(captureError)}`);
+      } finally {
+        await this.clearHighlight(page);
+      }
+    }
+  }
+
+  /**
+   * Outline a character range of an element's text and return the element's
+   * box in page coordinates, or null if the element is not on the page
+   */
+  private highlight(page: Page, selector: string, start: number, end: number) {
+    return page.evaluate(({ selector, start, end, attribute }) => {
+      const element = document.querySelector(selector);
+      if (!element) return null;
+
+      // Find the text nodes holding the start and end of the range
+      const range = document.createRange();
+      const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+      let seen = 0;
+      let node: Node | null;
+      let startSet = false;
+      while ((node = walker.nextNode())) {
+        const length = node.textContent!.length;
+        if (!startSet && start < seen + length) {
+          range.setStart(node, start - seen);
+          startSet = true;
+        }
+        if (startSet && end <= seen + length) {
+          range.setEnd(node, end - seen);
+          break;
+        }
+        seen += length;
+      }
+
+      const rects = startSet ? Array.from(range.getClientRects()) : [element.getBoundingClientRect()];
+      for (const rect of rects) {
+        const overlay = document.createElement('div');
+        overlay.setAttribute(attribute, '');
+        overlay.style.cssText = [
+          'position: absolute',
+          `left: ${rect.left + window.scrollX}px`,
+          `top: ${rect.top + window.scrollY}px`,
+          `width: ${rect.width}px`,
+          `height: ${rect.height}px`,
+          'outline: 2px solid #e74c3c',
+          'background: rgba(231, 76, 60, 0.2)',
+          'pointer-events: none',
+          'z-index: 2147483647'
+        ].join(';');
+        document.body.appendChild(overlay);
+      }
+
+      const box = element.getBoundingClientRect();
+      return { x: box.left + window.scrollX, y: box.top + window.scrollY, width: box.width, height: box.height };
+    }, { selector, start, end, attribute: OVERLAY_ATTRIBUTE });
+  }
+
+  private clearHighlight(page: Page): Promise<void> {
+    return page.evaluate(attribute => {
+      document.querySelectorAll(`[${attribute}]`).forEach(overlay => overlay.remove());
+    }, OVERLAY_ATTRIBUTE);
+  }
+
+  /**
+   * Readable, collision-free file name prefix for a page
+   */
+  private filePrefix(url: string): string {
+    const slug = url.replace(/^https?:\/\//, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const hash = crypto.createHash('sha1').update(url).digest('hex').slice(0, 8);
+    return `${slug}-${hash}`;
+  }
+}
@@ -1,150 +1,264 @@
-// Modified part of sentenceAnalyzer.ts for handling suggestions
-private analyzeText(text: string): GrammarError[] {
-  const errors: GrammarError[] = [];
-  
-  // Track which text fragments we've already reported
-  const reportedFragments = new Set<string>();
-  
-  // Split text into paragraphs
-  const paragraphs = text.split(/\n\n+/);
-  
-  // Process each paragraph to find sentences
-  for (const paragraph of paragraphs) {
-    // Skip empty paragraphs
-    if (!paragraph.trim()) continue;
-    
-    // Skip cookie consent banners and similar UI overlays
-    if (this.isCookieConsent(paragraph)) {
-      continue;
+import nlp from 'compromise';
+
+/**
+ * A sentence and where it starts in the analyzed text
+ */
+export interface Sentence {
+  // Without surrounding whitespace
+  text: string;
+  offset: number;
+}
+
+export interface IncompleteSentence extends Sentence {
+  suggestion: string;
+}
+
+export interface SentenceAnalyzerOptions {
+  // Text matching any of these is never checked (default: DEFAULT_IGNORE_PATTERNS)
+  ignorePatterns?: RegExp[];
+  // Sentences matching any of these are reported as possibly incomplete (default: DEFAULT_INCOMPLETE_PATTERNS)
+  incompletePatterns?: RegExp[];
+}
+
+export const DEFAULT_IGNORE_PATTERNS: RegExp[] = [
+  // Headings and list introductions that end with a colon are intentionally not full sentences
+  /^[A-Z][A-Za-z\s]{3,}:$/,
+  /^[A-Za-z\s]+(include|are|following|include but are not limited to):$/,
+  // Bulleted or numbered list items that are fragments
+  /^(\d+\.|\*|-|•)\s+[A-Za-z][^.]*$/,
+  // Navigation, buttons and other UI labels
+  /^(Home|About|Contact|Login|Signup|Videos|Menu)$/i,
+  /^(Accept|Decline|Submit|Cancel|Next|Previous)$/i,
+  /^(Terms and Conditions|Privacy Policy)$/i,
+  /^(Skip to content|Log In|Sign Up)$/i,
+  // Version, date and other metadata lines
+  /^(Version\s+Date|Last\s+Updated|Effective\s+Date):/i
+];
+
+export const DEFAULT_INCOMPLETE_PATTERNS: RegExp[] = [
+  // A subordinate clause with no main clause, e.g. "Because we value your privacy."
+  /^(because|although|though|whereas|unless)\b[^,;:]*$/i,
+  // Trailing off on a conjunction or article, e.g. "We collect your name and."
+  /\s(and|or|but|the|an|a)[.!?]?$/,
+  // A list or example that never starts, e.g. "We share data with partners such as."
+  /\b(such as|including|for example)[.!?]?$/i
+];
+
+/**
+ * Compile the regular expressions of a setting, case-insensitively
+ */
+export function compilePatterns(sources: string[], setting: string): RegExp[] {
+  return sources.map(source => {
+    try {
+      return new RegExp(source, 'i');
+    } catch (error) {
+      throw new Error(`Invalid ${setting} entry "${source}": ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    // Skip paragraphs that match ignore patterns
-    if (this.ignorePatterns.some(pattern => pattern.test(paragraph.trim()))) {
-      continue;
+  });
+}
+
+// Common words in CSS and code
+const CODE_WORDS = ['width', 'height', 'margin', 'padding', 'color', 'font', 'grid', 'flex', 'style', 'class', 'display', 'position'];
+
+// Common legal document section titles
+const COMMON_TITLES = [
+  'introduction', 'purpose', 'scope', 'definitions',
+  'privacy policy', 'terms of service', 'disclaimer',
+  'collection of information', 'use of information',
+  'information sharing', 'data protection', 'security measures',
+  'your rights', 'contact us', 'effective date'
+];
+
+/**
+ * Splits text into sentences paragraph by paragraph and tells content
+ * sentences from headings, UI text, navigation and code. Rules reach it
+ * through their RuleContext.
+ */
+export class SentenceAnalyzer {
+  private ignorePatterns: RegExp[];
+  private incompletePatterns: RegExp[];
+
+  constructor(options: SentenceAnalyzerOptions = {}) {
+    this.ignorePatterns = options.ignorePatterns ?? DEFAULT_IGNORE_PATTERNS;
+    this.incompletePatterns = options.incompletePatterns ?? DEFAULT_INCOMPLETE_PATTERNS;
+  }
+
+  /**
+   * The sentences of each paragraph (separated by blank lines), with offsets
+   * into the whole text, so a sentence repeated on a page is located each time
+   */
+  splitSentences(text: string): Sentence[] {
+    return this.splitParagraphs(text).flatMap(paragraph => this.sentencesOf(paragraph));
+  }
+
+  /**
+   * The paragraphs of the text (separated by blank lines), with offsets into the text
+   */
+  splitParagraphs(text: string): Sentence[] {
+    return [...text.matchAll(/\S(?:[^\n]|\n(?![ \t]*\n))*/g)].map(match => ({
+      text: match[0].trimEnd(),
+      offset: match.index!
+    }));
+  }
+
+  /**
+   * Sentences that match an incomplete pattern. Paragraphs and sentences that
+   * aren't content, such as cookie banners, navigation and code, are skipped.
+   */
+  findIncompleteSentences(text: string): IncompleteSentence[] {
+    const found: IncompleteSentence[] = [];
+
+    for (const paragraph of this.splitParagraphs(text)) {
+      if (this.shouldSkipText(paragraph.text)) continue;
+
+      for (const sentence of this.sentencesOf(paragraph)) {
+        if (sentence.text.length < 10 || this.shouldSkipText(sentence.text)) continue;
+        // Two-word fragments are labels, not sentences
+        if (sentence.text.split(/\s+/).length < 3) continue;
+
+        if (this.incompletePatterns.some(pattern => pattern.test(sentence.text))) {
+          found.push({ ...sentence, suggestion: this.suggestCompletion(sentence.text) });
+        }
+      }
     }
-    
-    // Skip if it looks like code or CSS
-    if (this.looksLikeCodeOrCSS(paragraph)) {
-      continue;
+
+    return found;
+  }
+
+  /**
+   * Detect headings, titles and section markers that are exempt from grammar checking
+   */
+  isHeadingOrTitle(text: string): boolean {
+    const trimmedText = text.trim();
+    if (!trimmedText) return false;
+
+    // Numbered or lettered section headings, e.g. "1. Introduction", "A. Information We Collect"
+    if (/^([A-Z]|[0-9]+)\.(\s+[A-Z][a-zA-Z0-9\s]*)+$/.test(trimmedText)) return true;
+
+    // Roman numeral headings, e.g. "IV. Terms of Service"
+    if (/^(I|II|III|IV|V|VI|VII|VIII|IX|X|XI|XII)\.(\s+[A-Z][a-zA-Z0-9\s]*)+$/.test(trimmedText)) return true;
+
+    // Short title case phrases that don't look like sentences
+    if (/^([A-Z][a-z0-9]*\s+){1,7}[A-Z][a-z0-9]*$/.test(trimmedText) && trimmedText.length < 60 && !trimmedText.includes(',')) {
+      return true;
     }
-    
-    // Skip if it looks like navigation
-    if (this.looksLikeNavigation(paragraph)) {
-      continue;
+
+    // Legal document headings, e.g. "Collection of Personal Information"
+    if (/^([A-Z][a-z]+\s+){0,2}of(\s+[A-Z][a-z]+){1,3}$/.test(trimmedText)) return true;
+
+    // "The Right to Deletion", "How to Exercise Access and Deletion Rights"
+    if (/^The\s+Right\s+to\s+[A-Z][a-zA-Z\s]*$/.test(trimmedText)) return true;
+    if (/^How\s+(to|We)\s+[A-Z][a-zA-Z\s]*$/.test(trimmedText)) return true;
+
+    // Document title followed by organization name in parentheses
+    if (/^[A-Z][a-z]+(\s+[A-Z][a-z]+)*:.*\([""][^)]+[""]\)$/.test(trimmedText)) return true;
+
+    return COMMON_TITLES.includes(trimmedText.toLowerCase());
+  }
+
+  /**
+   * Whether text should be left unchecked: headings, ignored patterns, cookie
+   * banners, navigation and code
+   */
+  shouldSkipText(text: string): boolean {
+    const trimmedText = text.trim();
+    if (!trimmedText) return true;
+
+    return this.isHeadingOrTitle(trimmedText)
+      || this.ignorePatterns.some(pattern => pattern.test(trimmedText))
+      || this.isCookieConsent(trimmedText)
+      || this.looksLikeNavigation(trimmedText)
+      || this.looksLikeCodeOrCSS(trimmedText);
+  }
+
+  /**
+   * Whether a preposition is part of a heading rather than a grammar error
+   */
+  isPrepositionInHeading(text: string): boolean {
+    const headingWithPrepositionPatterns = [
+      // "X of Y", e.g. "Collection of Personal Information"
+      /^([A-Z][a-z]+\s+){0,2}(of|to|for|with|by|from|in|on|at|about)(\s+[A-Z][a-z]+){1,3}$/,
+      // "The X of/to Y", e.g. "The Right to Deletion"
+      /^The\s+[A-Z][a-z]+\s+(of|to|for|with|by|from|in|on|at|about)\s+[A-Z][a-z]+/,
+      // "How to X", e.g. "How to Exercise Access"
+      /^How\s+to\s+[A-Z][a-z]+/
+    ];
+
+    return headingWithPrepositionPatterns.some(pattern => pattern.test(text.trim()));
+  }
+
+  /**
+   * Whether text is likely a content sentence, as opposed to a UI element or
+   * code fragment
+   */
+  isContentSentence(text: string): boolean {
+    // UI elements, code, and other non-content tend to be short
+    if (text.length < 15) return false;
+
+    const words = text.split(/\s+/).filter(word => word.length > 0);
+    if (words.length < 4) return false;
+
+    // Headings and list introductions end with colons
+    if (/:[^.]?$/.test(text.trim())) return false;
+
+    const hasSubjectVerb = /\b(the|a|an|this|that|these|those|we|you|they|he|she|it|I)\b.*\b(am|is|are|was|were|have|has|had|do|does|did|will|shall|may|might|can|could|would|should|must)\b/i.test(text);
+    const hasCodeWords = CODE_WORDS.some(word => text.toLowerCase().includes(word));
+
+    return hasSubjectVerb || (words.length >= 7 && !hasCodeWords && this.specialCharDensity(text) < 0.05);
+  }
+
+  private isCookieConsent(text: string): boolean {
+    return /cookie|consent|accept|decline|privacy/i.test(text) && /website|experience|browse|uses/i.test(text);
+  }
+
+  /**
+   * Menus flattened into text, e.g. "Home | Products | About Us | Contact"
+   */
+  private looksLikeNavigation(text: string): boolean {
+    const separators = text.match(/\s[|•·›»]\s/g) || [];
+    return separators.length >= 2 && !/[.!?]$/.test(text);
+  }
+
+  /**
+   * Stylesheets, scripts and markup that leaked into the text
+   */
+  private looksLikeCodeOrCSS(text: string): boolean {
+    if (/^[.#]?[\w-]+(\s*[>+~,]\s*[.#]?[\w-]+)*\s*\{/.test(text)) return true;
+    if (/[\w-]+\s*:\s*[^;]+;\s*[\w-]+\s*:\s*[^;]+;/.test(text)) return true;
+    if (/\b(function|const|var|let|return)\b.*[{};]/.test(text)) return true;
+
+    return text.length >= 20 && this.specialCharDensity(text) > 0.1;
+  }
+
+  private specialCharDensity(text: string): number {
+    return (text.match(/[{}[\]()=<>:;$&#%~`^\\|]/g) || []).length / text.length;
+  }
+
+  private suggestCompletion(sentence: string): string {
+    if (/^(because|although|though|whereas|unless)\b/i.test(sentence)) {
+      return 'Add the main clause this sentence depends on';
     }
-    
-    // Skip paragraphs that contain fragments we've already reported
-    let shouldSkipParagraph = false;
-    for (const fragment of reportedFragments) {
-      if (paragraph.includes(fragment)) {
-        shouldSkipParagraph = true;
-        break;
-      }
+    if (/\b(such as|including|for example)[.!?]?$/i.test(sentence)) {
+      return 'Finish the list or example';
     }
-    if (shouldSkipParagraph) continue;
-    
-    // Extract sentences
-    const sentences = this.extractSentences(paragraph);
-    
-    // Check each sentence for incomplete patterns
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      
-      // Skip empty sentences or very short ones
-      if (!trimmedSentence || trimmedSentence.length < 10) continue;
-      
-      // Skip cookie consent banners and similar UI overlays
-      if (this.isCookieConsent(trimmedSentence)) {
-        continue;
-      }
-      
-      // Skip sentences that match ignore patterns
-      if (this.ignorePatterns.some(pattern => pattern.test(trimmedSentence))) {
-        continue;
-      }
-      
-      // Skip if it looks like code or CSS
-      if (this.looksLikeCodeOrCSS(trimmedSentence)) {
-        continue;
-      }
-      
-      // Skip if it looks like navigation
-      if (this.looksLikeNavigation(trimmedSentence)) {
-        continue;
-      }
-      
-      // Skip if it's likely a UI element or metadata
-      if (this.isLikelyUIElement(trimmedSentence)) {
-        continue;
-      }
-      
-      // Skip if we've already reported this fragment
-      let shouldSkipSentence = false;
-      for (const fragment of reportedFragments) {
-        if (trimmedSentence.includes(fragment) || fragment.includes(trimmedSentence)) {
-          shouldSkipSentence = true;
-          break;
-        }
-      }
-      if (shouldSkipSentence) continue;
-      
-      // Check if the sentence doesn't end with punctuation and contains words
-      if (!trimmedSentence.match(/[.!?]$/) && /[a-zA-Z]{5,}/.test(trimmedSentence)) {
-        // Only report if it's likely an actual sentence, not UI
-        if (this.isLikelySentence(trimmedSentence)) {
-          errors.push({
-            message: 'Sentence does not end with proper punctuation',
-            context: trimmedSentence,
-            suggestions: ['Add appropriate ending punctuation (period, exclamation mark, or question mark)'],
-            ruleId: 'MISSING_END_PUNCTUATION',
-            position: {
-              offset: paragraph.indexOf(trimmedSentence),
-              length: trimmedSentence.length
-            }
-          });
-          
-          reportedFragments.add(trimmedSentence);
-        }
-        continue; // Skip other checks for this sentence
-      }
-      
-      // Check for other incomplete patterns
-      for (const pattern of this.incompletePatterns) {
-        if (pattern.test(trimmedSentence)) {
-          // Only report if it's likely an actual sentence, not UI
-          if (this.isLikelySentence(trimmedSentence)) {
-            // Generate a suggestion based on the sentence structure rather than hardcoded phrases
-            let suggestion = 'Complete the sentence with a main clause';
-            
-            // Provide more specific suggestions based on pattern detection
-            if (/\b(do not|does not|cannot|will not)\b.*\b(recognize|respond|reply|acknowledge)\b/i.test(trimmedSentence)) {
-              suggestion = 'Complete the sentence by specifying what is recognized or responded to';
-            } else if (/\b(initiated|completed|started|begun|processed|respond|recognize)\s*$/i.test(trimmedSentence)) {
-              suggestion = 'Complete the sentence by adding an object';
-            } else if (/^(please|kindly)\s+note\b/i.test(trimmedSentence)) {
-              suggestion = 'Complete the sentence after noting important information';
-            } else if (/\b(to|for|with|by|from|in|on|at|about|upon)\s*$/i.test(trimmedSentence)) {
-              suggestion = 'Add the object of the preposition';
-            }
-            
-            errors.push({
-              message: 'Possible incomplete sentence or sentence fragment',
-              context: trimmedSentence,
-              suggestions: [suggestion, 'Add proper punctuation'],
-              ruleId: 'POSSIBLE_INCOMPLETE_SENTENCE',
-              position: {
-                offset: paragraph.indexOf(trimmedSentence),
-                length: trimmedSentence.length
-              }
-            });
-            
-            reportedFragments.add(trimmedSentence);
-          }
-          break; // Only report one pattern match per sentence
-        }
-      }
+    return 'Complete the sentence with a main clause';
+  }
+
+  private sentencesOf(paragraph: Sentence): Sentence[] {
+    const sentences: Sentence[] = [];
+    let cursor = 0;
+
+    for (const sentence of nlp(paragraph.text).sentences().out('array') as string[]) {
+      const trimmed = sentence.trim();
+      if (!trimmed) continue;
+
+      // Sentences are found in order, so repeats get their own offsets
+      const index = paragraph.text.indexOf(trimmed, cursor);
+      const start = index === -1 ? cursor : index;
+      sentences.push({ text: trimmed, offset: paragraph.offset + start });
+      cursor = index === -1 ? cursor : index + trimmed.length;
     }
+
+    return sentences;
   }
-  
-  return errors;
-}
\ No newline at end of file
+}
@@ -0,0 +1,715 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { CheckResult, GrammarChecker, GrammarError } from './grammarChecker';
+import { Paragraph } from './extraction';
+import { addressRanges, escapeRegExp } from './textUtils';
+import { FileEdit, FixCandidate, applyFixes, toFixRecord, unifiedDiff } from './autoFix';
+
+export const SOURCE_FILE_EXTENSIONS = ['.md', '.mdx', '.markdown', '.html', '.htm', '.txt'];
+
+// Build output and tooling folders are never searched for source files
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+// Anything that can be placed in the file: findings and variant spellings
+type Locatable = Pick<GrammarError, 'position' | 'location' | 'source' | 'word' | 'line' | 'column'>;
+
+/**
+ * The prose of a source file, with the offset in the file of each character
+ */
+export interface ProseText {
+  text: string;
+  paragraphs: Paragraph[];
+  offsets: number[];
+  // Paragraphs taken from Markdown table cells, which fixes leave alone
+  tableCells?: Paragraph[];
+  // Language from the front matter's "lang" or "language" key
+  lang?: string;
+}
+
+/**
+ * Whether a command line argument names local files rather than a URL:
+ * a supported file, a glob or a directory
+ */
+export function isSourcePath(arg: string): boolean {
+  if (arg.includes('://')) return false;
+  if (SOURCE_FILE_EXTENSIONS.includes(path.extname(arg).toLowerCase()) || /[*?{]/.test(arg)) return true;
+
+  try {
+    return fs.statSync(arg).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve files, directories and globs ("docs/**\/*.md", "*.{md,mdx}") to
+ * the supported source files they match, sorted and without duplicates
+ */
+export async function expandSourcePaths(patterns: string[], cwd = process.cwd()): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    const matched = await expandSourcePath(pattern, cwd);
+    if (matched.length === 0) {
+      throw new Error(`No ${SOURCE_FILE_EXTENSIONS.join('/')} files match ${pattern}`);
+    }
+    matched.forEach(file => files.add(file));
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * Check one local file without a browser. Markdown and text files are
+ * reduced to their prose first; HTML files are extracted like a page.
+ * Findings get the line and column they start at in the file.
+ */
+export async function checkSourceFile(checker: GrammarChecker, filePath: string, cwd = process.cwd()): Promise<CheckResult> {
+  return (await checkSource(checker, filePath, cwd)).result;
+}
+
+/**
+ * Check a local file and apply the replacements its findings carry, unless
+ * it is a dry run. Fixes that can't be mapped exactly onto the file, or that
+ * overlap, are skipped and listed in the result. Resolves with a unified diff
+ * of the changes as well.
+ */
+export async function fixSourceFile(
+  checker: GrammarChecker,
+  filePath: string,
+  dryRun: boolean,
+  cwd = process.cwd()
+): Promise<{ result: CheckResult; diff: string }> {
+  const { source, result, mapFix } = await checkSource(checker, filePath, cwd);
+  const candidates = result.errors.filter(error => error.replacements && error.replacements.length > 0).map(mapFix);
+  const { fixed, applied, skipped } = applyFixes(source, candidates);
+
+  if (!dryRun && fixed !== source) {
+    await fs.promises.writeFile(filePath, fixed, 'utf8');
+  }
+
+  // Applied fixes are no longer issues, unless the file was left alone
+  const errors = dryRun ? result.errors : result.errors.filter(error => !applied.includes(error));
+  return {
+    result: {
+      ...result,
+      errors,
+      totalErrors: errors.length,
+      fixes: {
+        dryRun,
+        applied: applied.map(error => toFixRecord(error)),
+        skipped: skipped.map(({ error, reason }) => toFixRecord(error, reason))
+      }
+    },
+    diff: unifiedDiff(result.url, source, fixed)
+  };
+}
+
+/**
+ * Check a file, locate its findings, and return how to map a finding's
+ * replacements onto the file
+ */
+async function checkSource(checker: GrammarChecker, filePath: string, cwd: string): Promise<{
+  source: string;
+  result: CheckResult;
+  mapFix: (error: GrammarError) => FixCandidate;
+}> {
+  const source = await fs.promises.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const displayPath = toDisplayPath(filePath, cwd);
+
+  if (extension === '.html' || extension === '.htm') {
+    // Readability needs a real URL to resolve links against
+    const result = await checker.checkHtml(source, pathToFileURL(path.resolve(cwd, filePath)).href);
+    const $ = cheerio.load(source, { sourceCodeLocationInfo: true } as cheerio.CheerioOptions);
+    locateHtmlFindings(source, $, result.rawText, locatables(result));
+    return {
+      source,
+      result: { ...result, url: displayPath },
+      mapFix: error => mapHtmlFix(source, $, result.rawText, error)
+    };
+  }
+
+  const prose = extension === '.txt' ? extractPlainProse(source) : extractMarkdownProse(source, extension === '.mdx');
+  const result = await checker.checkPlainText(prose.text, displayPath, { paragraphs: prose.paragraphs, lang: prose.lang });
+
+  const lineStarts = findLineStarts(source);
+  for (const item of locatables(result)) {
+    setLineAndColumn(item, lineStarts, prose.offsets[item.position.offset] ?? 0);
+  }
+
+  return { source, result, mapFix: error => mapProseFix(source, prose, error) };
+}
+
+/**
+ * The prose of a Markdown or MDX file: front matter, code blocks, inline
+ * code, HTML/JSX tags, MDX imports and expressions, URLs, email addresses,
+ * paths and Markdown syntax are left out. Headings, list items and table
+ * cells are paragraphs of their own.
+ */
+export function extractMarkdownProse(source: string, mdx = false): ProseText {
+  const builder = new ProseBuilder();
+  const hidden = maskMultilineSyntax(source, mdx);
+
+  let start = 0;
+  let lang: string | undefined;
+  const frontMatter = /^(---|\+\+\+)\r?\n([\s\S]*?)\r?\n\1[ \t]*(?:\r?\n|$)/.exec(source);
+  if (frontMatter) {
+    start = frontMatter[0].length;
+    lang = frontMatter[1] === '---' ? frontMatterLanguage(frontMatter[2]) : undefined;
+  }
+
+  const lines = splitLines(source, start);
+  let fence: string | null = null;
+  let afterBlank = true;
+  let inList = false;
+  let inMdxStatement = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const { text: line, offset } = lines[index];
+
+    // Fenced code blocks are skipped up to their closing fence
+    if (fence) {
+      if (new RegExp(`^ {0,3}${escapeRegExp(fence)}${escapeRegExp(fence[0])}*\\s*$`).test(line)) fence = null;
+      continue;
+    }
+    const fenceOpen = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (fenceOpen) {
+      builder.endParagraph();
+      fence = fenceOpen[1];
+      continue;
+    }
+
+    if (/^\s*$/.test(line)) {
+      builder.endParagraph();
+      afterBlank = true;
+      inMdxStatement = false;
+      continue;
+    }
+    const wasAfterBlank = afterBlank;
+    afterBlank = false;
+
+    // MDX import/export statements run until the next blank line
+    if (mdx && (inMdxStatement || (wasAfterBlank && /^(import|export)\s/.test(line)))) {
+      inMdxStatement = true;
+      continue;
+    }
+
+    // Indented code blocks, unless the indent continues a list item
+    if (wasAfterBlank && !inList && /^( {4}|\t)/.test(line)) {
+      afterBlank = true;
+      continue;
+    }
+
+    // Setext heading underlines end the heading above; rules and link definitions are skipped
+    if (builder.isOpen() && /^ {0,3}(=+|-+)\s*$/.test(line)) {
+      builder.endParagraph();
+      continue;
+    }
+    if (/^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line) || /^ {0,3}\[[^\]]+\]:\s*\S+/.test(line) || isTableDelimiter(line)) {
+      builder.endParagraph();
+      continue;
+    }
+
+    const keep = line.split('').map((_, i) => !hidden[offset + i]);
+    let from = 0;
+
+    const quote = /^( {0,3}>[ \t]?)+/.exec(line);
+    if (quote) from = quote[0].length;
+
+    const rest = line.slice(from);
+    const heading = /^ {0,3}#{1,6}(?:[ \t]+|$)/.exec(rest);
+    const listItem = /^\s*(?:[-*+]|\d{1,9}[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/.exec(rest);
+    const tableRow = /^\s*\|/.test(rest) || (rest.includes('|') && index + 1 < lines.length && isTableDelimiter(lines[index + 1].text));
+
+    if (heading) {
+      builder.endParagraph();
+      from += heading[0].length;
+      const closing = /[ \t]+#+[ \t]*$/.exec(line);
+      maskInline(line, keep);
+      builder.addLine(line, offset, keep, from, closing ? closing.index : line.length);
+      builder.endParagraph();
+      continue;
+    }
+
+    if (listItem) {
+      builder.endParagraph();
+      inList = true;
+      from += listItem[0].length;
+    } else if (wasAfterBlank && !/^\s/.test(line)) {
+      inList = false;
+    }
+
+    maskInline(line, keep);
+
+    if (tableRow) {
+      builder.endParagraph();
+      // Every cell is checked on its own, like a short label
+      let cellStart = from;
+      for (let i = from; i <= line.length; i++) {
+        if (i < line.length && (line[i] !== '|' || line[i - 1] === '\\')) continue;
+        builder.addLine(line, offset, keep, cellStart, i);
+        builder.endParagraph(true);
+        cellStart = i + 1;
+      }
+      continue;
+    }
+
+    // A line with nothing but markup, e.g. "<div>", separates paragraphs
+    if (!keep.slice(from).some((kept, i) => kept && /\S/.test(line[from + i]))) {
+      builder.endParagraph();
+      continue;
+    }
+
+    builder.addLine(line, offset, keep, from, line.length);
+  }
+
+  builder.endParagraph();
+  return { ...builder.result(), lang };
+}
+
+/**
+ * The prose of a text file: paragraphs are separated by blank lines, and the
+ * lines of a paragraph are joined with spaces
+ */
+export function extractPlainProse(source: string): ProseText {
+  const builder = new ProseBuilder();
+
+  for (const { text: line, offset } of splitLines(source, 0)) {
+    if (/^\s*$/.test(line)) {
+      builder.endParagraph();
+      continue;
+    }
+    builder.addLine(line, offset, line.split('').map(() => true), 0, line.length);
+  }
+
+  builder.endParagraph();
+  return builder.result();
+}
+
+/**
+ * Collects kept characters into paragraphs, collapsing whitespace and
+ * remembering where in the file each character came from
+ */
+class ProseBuilder {
+  private text = '';
+  private offsets: number[] = [];
+  private paragraphs: Paragraph[] = [];
+  private tableCells: Paragraph[] = [];
+  private start = -1;
+
+  isOpen(): boolean {
+    return this.start !== -1;
+  }
+
+  /**
+   * Add the kept characters in [from, to) of a line. Lines added to an open
+   * paragraph are joined with a space.
+   */
+  addLine(line: string, lineOffset: number, keep: boolean[], from: number, to: number): void {
+    // The joining space stands for the line break before the line
+    if (this.isOpen()) this.push(' ', lineOffset - 1);
+
+    for (let i = from; i < to; i++) {
+      if (!keep[i]) continue;
+
+      if (/\s/.test(line[i])) {
+        this.push(' ', lineOffset + i);
+      } else {
+        if (!this.isOpen()) {
+          // Paragraphs are joined the same way as extracted page text
+          if (this.text.length > 0) {
+            this.text += '\n\n';
+            this.offsets.push(lineOffset + i, lineOffset + i);
+          }
+          this.start = this.text.length;
+        }
+        this.text += line[i];
+        this.offsets.push(lineOffset + i);
+      }
+    }
+  }
+
+  endParagraph(tableCell = false): void {
+    if (!this.isOpen()) return;
+
+    while (this.text.endsWith(' ')) {
+      this.text = this.text.slice(0, -1);
+      this.offsets.pop();
+    }
+    this.paragraphs.push({ start: this.start, end: this.text.length });
+    if (tableCell) this.tableCells.push({ start: this.start, end: this.text.length });
+    this.start = -1;
+  }
+
+  result(): ProseText {
+    return { text: this.text, paragraphs: this.paragraphs, offsets: this.offsets, tableCells: this.tableCells };
+  }
+
+  /**
+   * Add a space, never at the start of a paragraph or after another space
+   */
+  private push(space: string, offset: number): void {
+    if (!this.isOpen() || this.text.endsWith(space)) return;
+    this.text += space;
+    this.offsets.push(offset);
+  }
+}
+
+/**
+ * Mark constructs that can span lines: HTML comments, raw HTML blocks whose
+ * content isn't prose, tags, and MDX comments and expressions
+ */
+function maskMultilineSyntax(source: string, mdx: boolean): boolean[] {
+  const hidden = new Array<boolean>(source.length).fill(false);
+  const patterns = [
+    /<!--[\s\S]*?-->/g,
+    /<(script|style|pre|code)\b[^>]*>[\s\S]*?<\/\1\s*>/gi,
+    /<\/?[A-Za-z][\w.:-]*(?:\s[^<>]*)?\/?>/g
+  ];
+  if (mdx) {
+    patterns.push(/\{\/\*[\s\S]*?\*\/\}/g, /\{[^{}]*\}/g);
+  }
+
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+      hidden.fill(true, match.index, match.index + match[0].length);
+    }
+  }
+
+  return hidden;
+}
+
+/**
+ * Drop inline Markdown syntax, URLs and other addresses from a line, keeping
+ * link and image text
+ */
+function maskInline(line: string, keep: boolean[]): void {
+  const mask = (pattern: RegExp, keepFrom?: (match: RegExpExecArray) => [number, number]) => {
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+      const [keptStart, keptEnd] = keepFrom ? keepFrom(match) : [0, 0];
+      for (let i = 0; i < match[0].length; i++) {
+        if (i < keptStart || i >= keptEnd) keep[match.index + i] = false;
+      }
+    }
+  };
+
+  // Inline code first, so nothing inside it is mistaken for other syntax
+  mask(/(`+)[\s\S]*?\1/g);
+  // Images keep their alt text, links their text
+  mask(/!\[([^\]]*)\]\((?:[^()\s]|\([^)]*\))*(?:\s+"[^"]*")?\)/g, match => [2, 2 + match[1].length]);
+  mask(/\[([^\]]*)\]\((?:[^()\s]|\([^)]*\))*(?:\s+"[^"]*")?\)/g, match => [1, 1 + match[1].length]);
+  mask(/\[([^\]]+)\]\[[^\]]*\]/g, match => [1, 1 + match[1].length]);
+  mask(/\[\^[^\]]+\]/g);
+  mask(/\b(?:https?:\/\/|www\.)[^\s<>()]+/g);
+  mask(/&(?:[a-z]+|#\d+|#x[\da-f]+);/gi);
+  mask(/\\(?=[\\`*_{}[\]()#+\-.!|>~])/g);
+  mask(/\*+|~~/g);
+  mask(/(?<![\p{L}\p{N}])_+|_+(?![\p{L}\p{N}])/gu);
+
+  // Bare domains, email addresses and paths in what is left, e.g. "github.com"
+  const visible = line.split('').map((char, i) => keep[i] ? char : ' ').join('');
+  for (const { start, end } of addressRanges(visible)) {
+    keep.fill(false, start, end);
+  }
+}
+
+function isTableDelimiter(line: string): boolean {
+  return /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(line) && line.includes('|');
+}
+
+function frontMatterLanguage(yaml: string): string | undefined {
+  try {
+    const data = parseYaml(yaml);
+    const lang = data?.lang ?? data?.language;
+    return typeof lang === 'string' ? lang : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The findings of a file, and its variant spellings for the site-wide
+ * consistency check that runs after every file is checked
+ */
+function locatables(result: CheckResult): Locatable[] {
+  return [...result.errors, ...(result.variantUsages || [])];
+}
+
+/**
+ * Set a finding's line and column from an offset in the file
+ */
+function setLineAndColumn(error: Locatable, lineStarts: number[], offset: number): void {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+
+  error.line = low + 1;
+  error.column = offset - lineStarts[low] + 1;
+}
+
+/**
+ * Find each HTML finding in the file: the flagged text inside the element
+ * (or attribute) it was located in, or else the start of that element
+ */
+function locateHtmlFindings(html: string, $: cheerio.CheerioAPI, rawText: string, items: Locatable[]): void {
+  const lineStarts = findLineStarts(html);
+
+  for (const error of items) {
+    const range = findHtmlRange($, error);
+    if (!range) continue;
+
+    const flagged = flaggedHtmlText(rawText, error);
+    const found = flagged ? findFlexible(html.slice(range.from, range.to), flagged) : -1;
+
+    setLineAndColumn(error, lineStarts, found === -1 ? range.element : range.from + found);
+  }
+}
+
+/**
+ * Map a finding's replacements onto an HTML file. The flagged text must
+ * appear exactly once in its element or attribute, with nothing but
+ * whitespace between its words, or the fix is skipped.
+ */
+function mapHtmlFix(html: string, $: cheerio.CheerioAPI, rawText: string, error: GrammarError): FixCandidate {
+  const range = findHtmlRange($, error);
+  if (!range) return { error, reason: 'its element could not be found in the file' };
+
+  const flagged = flaggedHtmlText(rawText, error);
+  if (!flagged) return { error, reason: 'only the flagged word is known for text outside the body' };
+
+  const words = [...flagged.matchAll(/\S+/g)];
+  const pattern = new RegExp(words.map(word => `(${escapeRegExp(word[0])})`).join('(\\s+)'), 'g');
+  const matches = [...html.slice(range.from, range.to).matchAll(pattern)];
+  if (matches.length !== 1) {
+    return {
+      error,
+      reason: matches.length === 0 ? 'the text is split by markup or entities in the file' : 'the text appears more than once in its element'
+    };
+  }
+
+  // Where each word of the flagged text starts in the file
+  const match = matches[0];
+  const wordStarts: number[] = [];
+  let offset = range.from + match.index!;
+  for (let group = 1; group < match.length; group++) {
+    if (group % 2 === 1) wordStarts.push(offset);
+    offset += match[group].length;
+  }
+
+  // Offsets in or right after a word keep their distance from its start;
+  // the whitespace between words can differ in the file
+  const toFileOffset = (textOffset: number) => {
+    let index = words.length - 1;
+    while (index > 0 && words[index].index! > textOffset) index--;
+    const fromWordStart = textOffset - words[index].index!;
+    if (fromWordStart <= words[index][0].length) return wordStarts[index] + fromWordStart;
+    return index + 1 < words.length ? wordStarts[index + 1] : wordStarts[index] + words[index][0].length;
+  };
+
+  return {
+    error,
+    edits: error.replacements!.map(replacement => ({
+      start: toFileOffset(replacement.offset),
+      end: toFileOffset(replacement.offset + replacement.length),
+      text: replacement.text
+    }))
+  };
+}
+
+/**
+ * Map a finding's replacements onto a Markdown or text file. The replaced
+ * text must read the same in the file, apart from line breaks, and an
+ * insertion must not land inside Markdown syntax.
+ */
+function mapProseFix(source: string, prose: ProseText, error: GrammarError): FixCandidate {
+  const edits: FileEdit[] = [];
+
+  // A cell's text is a label, and an edit could break the row's alignment
+  const offset = error.position.offset;
+  if ((prose.tableCells || []).some(cell => offset >= cell.start && offset <= cell.end)) {
+    return { error, reason: 'it is in a table' };
+  }
+
+  for (const replacement of error.replacements!) {
+    const start = error.position.offset + replacement.offset;
+    const end = start + replacement.length;
+
+    if (start === end) {
+      const at = start > 0 ? prose.offsets[start - 1] + 1 : prose.offsets[0];
+      const next = source[at];
+      if (next !== undefined && !/\s/.test(next) && prose.offsets[start] !== at) {
+        return { error, reason: 'it would land inside Markdown syntax' };
+      }
+      edits.push({ start: at, end: at, text: replacement.text });
+      continue;
+    }
+
+    const fileStart = prose.offsets[start];
+    const fileEnd = prose.offsets[end - 1] + 1;
+    if (source.slice(fileStart, fileEnd).replace(/\s+/g, ' ') !== prose.text.slice(start, end)) {
+      return { error, reason: 'the text is split by Markdown syntax in the file' };
+    }
+    edits.push({ start: fileStart, end: fileEnd, text: replacement.text });
+  }
+
+  return { error, edits };
+}
+
+/**
+ * The part of an HTML file a finding is in: the element's content, or the
+ * attribute it was found in
+ */
+function findHtmlRange($: cheerio.CheerioAPI, error: Locatable): { from: number; to: number; element: number } | null {
+  if (!error.location) return null;
+
+  const element = $(error.location.selector).get(0) as Element | undefined;
+  const where = element?.sourceCodeLocation as (Element['sourceCodeLocation'] & {
+    attrs?: Record<string, { startOffset: number; endOffset: number }>;
+  }) | null | undefined;
+  if (!where) return null;
+
+  const attribute = error.location.attribute ? where.attrs?.[error.location.attribute] : undefined;
+  return {
+    from: attribute ? attribute.startOffset : where.startTag?.endOffset ?? where.startOffset,
+    to: attribute ? attribute.endOffset : where.endOffset,
+    element: where.startOffset
+  };
+}
+
+/**
+ * The text a finding flagged, as extracted. Only the word is known for text
+ * outside the body.
+ */
+function flaggedHtmlText(rawText: string, error: Locatable): string | undefined {
+  return error.source && error.source !== 'body'
+    ? error.word
+    : rawText.slice(error.position.offset, error.position.offset + error.position.length);
+}
+
+/**
+ * Index of text in markup, allowing any whitespace, tags or &nbsp; between words
+ */
+function findFlexible(markup: string, text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return -1;
+  return markup.search(new RegExp(words.join('(?:\\s|&nbsp;|<[^>]*>)+')));
+}
+
+function findLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function splitLines(source: string, start: number): { text: string; offset: number }[] {
+  const lines: { text: string; offset: number }[] = [];
+  let offset = start;
+
+  for (const text of source.slice(start).split('\n')) {
+    lines.push({ text: text.replace(/\r$/, ''), offset });
+    offset += text.length + 1;
+  }
+
+  return lines;
+}
+
+async function expandSourcePath(pattern: string, cwd: string): Promise<string[]> {
+  if (!/[*?{]/.test(pattern)) {
+    const resolved = path.resolve(cwd, pattern);
+    const stat = await fs.promises.stat(resolved).catch(() => null);
+    if (!stat) return [];
+    if (stat.isDirectory()) return (await walk(resolved)).filter(isSourceFile);
+    if (!isSourceFile(resolved)) {
+      throw new Error(`Unsupported file ${pattern}; expected one of ${SOURCE_FILE_EXTENSIONS.join(', ')}`);
+    }
+    return [resolved];
+  }
+
+  // Walk from the last directory before the first wildcard
+  const parts = pattern.split(/[\\/]/);
+  const fixed = parts.slice(0, parts.findIndex(part => /[*?{]/.test(part)));
+  const root = path.resolve(cwd, fixed.join('/') || '.');
+  const matcher = globToRegExp(toPosix(path.isAbsolute(pattern) ? pattern : path.join(cwd, pattern)));
+
+  const files = await walk(root).catch(() => []);
+  return files.filter(file => isSourceFile(file) && matcher.test(toPosix(file)));
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...await walk(fullPath));
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+function isSourceFile(filePath: string): boolean {
+  return SOURCE_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Convert a glob to an anchored regex: "**" crosses directories, "*" and "?"
+ * don't, and "{a,b}" matches either
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function toPosix(filePath: string): string {
+  return path.normalize(filePath).split(path.sep).join('/');
+}
+
+/**
+ * A file path as shown in reports: relative to the working directory when inside it
+ */
+function toDisplayPath(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, path.resolve(cwd, filePath));
+  return toPosix(relative.startsWith('..') || path.isAbsolute(relative) ? path.resolve(cwd, filePath) : relative);
+}
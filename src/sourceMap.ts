@@ -0,0 +1,113 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+
+/**
+ * Where a piece of extracted text came from in the page markup
+ */
+export interface ElementLocation {
+  selector: string;
+  xpath: string;
+  tag: string;
+  // Set when the text is an attribute value rather than the element's text
+  attribute?: string;
+  // Character range within the element's text content (or attribute value)
+  start: number;
+  end: number;
+  // The element was not shown when the page was checked, e.g. an inactive tab
+  hidden?: boolean;
+}
+
+/**
+ * One extracted paragraph and the element it was taken from
+ */
+export interface TextSegment {
+  // Range of the segment in the extracted text
+  start: number;
+  end: number;
+  selector: string;
+  xpath: string;
+  tag: string;
+  // Offset of the segment within the element's text, i.e. trimmed leading whitespace
+  elementOffset: number;
+  hidden?: boolean;
+}
+
+/**
+ * A unique CSS selector for an element: the nearest ancestor with a unique id,
+ * then tag names with :nth-of-type where siblings share a tag
+ */
+export function cssSelector($: cheerio.CheerioAPI, element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const id = current.attribs.id;
+    if (id && $(`[id="${id.replace(/["\\]/g, '\\$&')}"]`).length === 1) {
+      parts.unshift(`#${escapeIdentifier(id)}`);
+      break;
+    }
+
+    const { index, count } = siblingPosition(current);
+    parts.unshift(count > 1 ? `${current.name}:nth-of-type(${index})` : current.name);
+    current = parentElement(current);
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * An absolute XPath for an element, e.g. /html/body/div[2]/p[1]
+ */
+export function xpathFor(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const { index, count } = siblingPosition(current);
+    parts.unshift(count > 1 ? `${current.name}[${index}]` : current.name);
+    current = parentElement(current);
+  }
+
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * Map a range in the extracted text to the element it came from. Ranges that
+ * run past the end of a segment are clamped to it.
+ */
+export function locateRange(segments: TextSegment[], offset: number, length: number): ElementLocation | undefined {
+  const segment = segments.find(candidate => offset >= candidate.start && offset < candidate.end);
+  if (!segment) return undefined;
+
+  const start = offset - segment.start;
+  const end = Math.min(offset + length, segment.end) - segment.start;
+
+  return {
+    selector: segment.selector,
+    xpath: segment.xpath,
+    tag: segment.tag,
+    start: segment.elementOffset + start,
+    end: segment.elementOffset + end,
+    hidden: segment.hidden
+  };
+}
+
+function siblingPosition(element: Element): { index: number; count: number } {
+  const siblings = element.parent
+    ? element.parent.children.filter((node): node is Element => node.type === 'tag' && (node as Element).name === element.name)
+    : [element];
+
+  return { index: siblings.indexOf(element) + 1, count: siblings.length };
+}
+
+function parentElement(element: Element): Element | null {
+  const parent = element.parent;
+  return parent && parent.type === 'tag' ? parent as Element : null;
+}
+
+function escapeIdentifier(value: string): string {
+  return value
+    .replace(/[^a-zA-Z0-9_\u00A0-\uFFFF-]/g, '\\$&')
+    .replace(/^(\d)/, '\\3$1 ')
+    .replace(/^-(\d)/, '-\\3$1 ');
+}
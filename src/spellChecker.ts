@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import nspell from 'nspell';
+import { GrammarError } from './grammarChecker';
+import { getSurroundingText, isAddressToken } from './textUtils';
+
+export interface SpellCheckerOptions {
+  language?: string;
+  // Directory holding `<language>.aff`/`<language>.dic` pairs, checked before bundled dictionaries
+  dictionaryDir?: string;
+  maxSuggestions?: number;
+  // Project words: all-lowercase entries match any casing, others must match exactly
+  customWords?: string[];
+}
+
+// Loaded dictionaries are shared across checker instances; parsing one takes seconds
+const dictionaryCache = new Map<string, Promise<ReturnType<typeof nspell>>>();
+
+// Characters that never appear in prose words but are common in identifiers, paths and markup
+const CODE_LIKE_TOKEN = /[_\\/=<>{}[\]|~^$#@*+]|[a-z][A-Z]|\w\.\w|^\.\w|\d/;
+
+const WORD_PATTERN = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu;
+
+export class SpellChecker {
+  private suggestionCache: Map<string, string[]>;
+  private exactWords: Set<string>;
+  private caseInsensitiveWords: Set<string>;
+
+  private constructor(
+    private dictionary: ReturnType<typeof nspell>,
+    private options: SpellCheckerOptions
+  ) {
+    this.suggestionCache = new Map<string, string[]>();
+    this.exactWords = new Set<string>();
+    this.caseInsensitiveWords = new Set<string>();
+
+    for (const word of this.options.customWords || []) {
+      if (word === word.toLowerCase()) {
+        this.caseInsensitiveWords.add(word);
+      } else {
+        this.exactWords.add(word);
+      }
+    }
+  }
+
+  /**
+   * Load the Hunspell dictionary for the configured language
+   */
+  static async load(options: SpellCheckerOptions = {}): Promise<SpellChecker> {
+    const language = options.language || 'en-US';
+    const key = `${options.dictionaryDir || ''}|${language}`;
+
+    let dictionary = dictionaryCache.get(key);
+    if (!dictionary) {
+      dictionary = loadDictionary(language, options.dictionaryDir);
+      dictionaryCache.set(key, dictionary);
+      // Don't cache failures, so a fixed dictionary path works on the next attempt
+      dictionary.catch(() => dictionaryCache.delete(key));
+    }
+
+    return new SpellChecker(await dictionary, {
+      ...options,
+      language,
+      maxSuggestions: options.maxSuggestions ?? 5
+    });
+  }
+
+  /**
+   * Check every word in the text and report unknown ones
+   */
+  check(text: string): GrammarError[] {
+    const errors: GrammarError[] = [];
+    const tokenPattern = /\S+/g;
+    let token;
+
+    while ((token = tokenPattern.exec(text)) !== null) {
+      // Strip surrounding punctuation before deciding what kind of token this is
+      const stripped = token[0].replace(/^[("'“‘[]+|[)"'”’\],.;:!?]+$/g, '');
+      if (this.shouldSkipToken(stripped)) continue;
+
+      let match;
+      WORD_PATTERN.lastIndex = 0;
+      while ((match = WORD_PATTERN.exec(token[0])) !== null) {
+        const word = match[0];
+        if (this.shouldSkipWord(word) || this.isCorrect(word)) continue;
+
+        const offset = token.index + match.index;
+        const suggestions = this.suggest(word);
+        errors.push({
+          message: `Possible spelling mistake: "${word}"`,
+          context: getSurroundingText(text, offset, word.length),
+          suggestions,
+          ruleId: 'SPELLING',
+          word,
+          severity: 'error',
+          category: 'spelling',
+          // A word with no close suggestion is more often a name or jargon
+          confidence: suggestions.length > 0 ? 0.8 : 0.6,
+          position: {
+            offset,
+            length: word.length
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check a single word against the project words, then the dictionary,
+   * normalizing typographic apostrophes
+   */
+  isCorrect(word: string): boolean {
+    const normalized = word.replace(/’/g, "'");
+    if (this.exactWords.has(normalized) || this.caseInsensitiveWords.has(normalized.toLowerCase())) {
+      return true;
+    }
+    return this.dictionary.correct(normalized);
+  }
+
+  /**
+   * Get ranked suggestions for a misspelled word
+   */
+  suggest(word: string): string[] {
+    let suggestions = this.suggestionCache.get(word);
+    if (!suggestions) {
+      suggestions = this.rankSuggestions(word).slice(0, this.options.maxSuggestions);
+      this.suggestionCache.set(word, suggestions);
+    }
+    return suggestions;
+  }
+  
+  /**
+   * Rank Hunspell's candidates by edit distance so typos like "teh" put "the" first.
+   * Capitalized words also get the suggestions for their lowercase form.
+   */
+  private rankSuggestions(word: string): string[] {
+    const normalized = word.replace(/’/g, "'");
+    const candidates = this.dictionary.suggest(normalized);
+
+    const isCapitalized = /^\p{Lu}\p{Ll}/u.test(normalized);
+    if (isCapitalized) {
+      const lower = normalized.toLowerCase();
+      candidates.push(...this.dictionary.suggest(lower).map(s => s.charAt(0).toUpperCase() + s.slice(1)));
+    }
+
+    const scored = Array.from(new Set(candidates)).map((candidate, index) => {
+      let score = editDistance(normalized.toLowerCase(), candidate.toLowerCase());
+      // Transposed or doubled letters are the most common typing slips
+      if (sortLetters(candidate) === sortLetters(normalized)) score -= 0.5;
+      // Prefer candidates that keep the original capitalization
+      if (isCapitalized !== /^\p{Lu}/u.test(candidate)) score += 0.5;
+      return { candidate, score, index };
+    });
+
+    return scored
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(entry => entry.candidate);
+  }
+
+  /**
+   * Skip URLs, email addresses and code-like tokens entirely
+   */
+  private shouldSkipToken(token: string): boolean {
+    if (!token) return true;
+    if (isAddressToken(token)) return true;
+    return CODE_LIKE_TOKEN.test(token);
+  }
+
+  /**
+   * Skip single letters and ALL-CAPS acronyms
+   */
+  private shouldSkipWord(word: string): boolean {
+    if (word.length < 2) return true;
+    return word === word.toUpperCase() && word !== word.toLowerCase();
+  }
+}
+
+/**
+ * Find and parse the .aff/.dic pair for a language. A custom directory wins,
+ * then a bundled `dictionary-<lang>-<region>` package, then `dictionary-<lang>`.
+ */
+async function loadDictionary(language: string, dictionaryDir?: string): Promise<ReturnType<typeof nspell>> {
+  const candidates: string[] = [];
+
+  if (dictionaryDir) {
+    candidates.push(path.join(dictionaryDir, language), path.join(dictionaryDir, language.replace('-', '_')));
+  }
+
+  const [primary] = language.toLowerCase().split(/[-_]/);
+  for (const packageName of [`dictionary-${language.toLowerCase()}`, `dictionary-${primary}`]) {
+    try {
+      candidates.push(path.join(path.dirname(require.resolve(packageName)), 'index'));
+    } catch {
+      // Dictionary package not installed
+    }
+  }
+
+  for (const base of candidates) {
+    if (fs.existsSync(`${base}.aff`) && fs.existsSync(`${base}.dic`)) {
+      const [aff, dic] = await Promise.all([
+        fs.promises.readFile(`${base}.aff`),
+        fs.promises.readFile(`${base}.dic`)
+      ]);
+      return nspell(aff, dic);
+    }
+  }
+
+  throw new Error(`No Hunspell dictionary found for language "${language}"`);
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 1; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+function sortLetters(word: string): string {
+  return word.toLowerCase().split('').sort().join('');
+}
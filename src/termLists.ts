@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { GrammarError } from './grammarChecker';
+import { VariantGroup, defaultVariantGroups } from './consistency';
+import { escapeRegExp, getSurroundingText } from './textUtils';
+
+// Picked up from the working directory when no explicit path is given
+export const DEFAULT_TERMS_FILE = '.grammar-terms.yml';
+
+export const INCLUSIVE_LANGUAGE_RULE = 'INCLUSIVE_LANGUAGE';
+
+/**
+ * Terms a project bans, with alternatives, and the spelling variants it keeps consistent
+ */
+export interface TermLists {
+  inclusive: Record<string, string[]>;
+  variants: VariantGroup[];
+}
+
+/**
+ * A terms file as written by a project. Everything is optional; the defaults
+ * are extended unless `replaceDefaults` is set.
+ */
+interface TermsFile {
+  // Extra terms to flag, with suggested alternatives
+  terms?: Record<string, string[] | string>;
+  // Default terms this project allows
+  allow?: string[];
+  // Extra groups of spellings to keep consistent
+  variants?: string[][];
+  // Variants that always win in their group, e.g. ["log in", "colour"]
+  prefer?: string[];
+  // Preferred dialect for the built-in US/UK groups
+  dialect?: 'us' | 'uk';
+  replaceDefaults?: boolean;
+}
+
+// Gendered, ableist and exclusionary terms with neutral alternatives
+const DEFAULT_INCLUSIVE_TERMS: Record<string, string[]> = {
+  'chairman': ['chair', 'chairperson'],
+  'chairmen': ['chairs'],
+  'businessman': ['businessperson', 'professional'],
+  'businessmen': ['businesspeople', 'professionals'],
+  'salesman': ['salesperson', 'sales representative'],
+  'salesmen': ['salespeople'],
+  'spokesman': ['spokesperson'],
+  'manpower': ['workforce', 'staff'],
+  'man-hours': ['person-hours', 'work hours'],
+  'mankind': ['humanity', 'people'],
+  'manmade': ['artificial', 'synthetic'],
+  'man-made': ['artificial', 'synthetic'],
+  'guys': ['everyone', 'folks', 'team'],
+  'ladies and gentlemen': ['everyone', 'guests'],
+  'crazy': ['surprising', 'wild'],
+  'insane': ['extreme', 'unbelievable'],
+  'lame': ['disappointing', 'weak'],
+  'dumb': ['pointless', 'unwise'],
+  'crippled': ['slowed down', 'broken'],
+  'crippling': ['severe', 'debilitating'],
+  'tone-deaf': ['insensitive'],
+  'sanity check': ['quick check', 'confidence check'],
+  'blacklist': ['blocklist', 'denylist'],
+  'blacklisted': ['blocked', 'denied'],
+  'whitelist': ['allowlist'],
+  'whitelisted': ['allowed'],
+  'master and slave': ['primary and replica', 'leader and follower'],
+  'slave': ['replica', 'follower', 'secondary'],
+  'grandfathered': ['exempt', 'legacy'],
+  'grandfather clause': ['legacy clause'],
+  'native speaker': ['fluent speaker']
+};
+
+/**
+ * The built-in term list and US/UK spelling groups
+ */
+export function defaultTermLists(): TermLists {
+  return { inclusive: { ...DEFAULT_INCLUSIVE_TERMS }, variants: defaultVariantGroups() };
+}
+
+/**
+ * The words of every suggested alternative and spelling variant, so the
+ * spelling check accepts what the term lists ask for, e.g. "allowlist"
+ */
+export function termListWords(lists: TermLists): string[] {
+  const terms = [...Object.values(lists.inclusive).flat(), ...lists.variants.flatMap(group => group.variants)];
+  const words = terms.flatMap(term => term.toLowerCase().split(/[^\p{L}\p{M}'’]+/u));
+  return Array.from(new Set(words.filter(word => word.length > 0)));
+}
+
+/**
+ * The defaults, extended or replaced by a project terms file
+ */
+export async function loadTermLists(filePath: string): Promise<TermLists> {
+  const file = parseTermsFile(await fs.promises.readFile(filePath, 'utf8'), filePath);
+
+  const inclusive: Record<string, string[]> = file.replaceDefaults ? {} : { ...DEFAULT_INCLUSIVE_TERMS };
+  for (const [term, alternatives] of Object.entries(file.terms || {})) {
+    inclusive[term.toLowerCase()] = Array.isArray(alternatives) ? alternatives : [alternatives];
+  }
+  for (const term of file.allow || []) {
+    delete inclusive[term.toLowerCase()];
+  }
+
+  const prefer = new Set((file.prefer || []).map(variant => variant.toLowerCase()));
+  const variants: VariantGroup[] = [
+    ...(file.replaceDefaults ? [] : defaultVariantGroups(file.dialect)),
+    ...(file.variants || []).map(variants => ({ variants }))
+  ].map((group: VariantGroup) => ({
+    ...group,
+    preferred: group.variants.find(variant => prefer.has(variant.toLowerCase())) || group.preferred
+  }));
+
+  return { inclusive, variants };
+}
+
+/**
+ * Flag banned terms, matched as whole words in any casing
+ */
+export function checkInclusiveTerms(text: string, terms: Record<string, string[]>): GrammarError[] {
+  const errors: GrammarError[] = [];
+  const entries = Object.keys(terms).sort((a, b) => b.length - a.length);
+  if (entries.length === 0) return errors;
+
+  // Longest first, so "master and slave" wins over "slave"
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}'’-])(?:${entries.map(term => escapeRegExp(term).replace(/\s+/g, '\\s+')).join('|')})(?![\\p{L}\\p{N}'’-])`,
+    'giu'
+  );
+
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const term = match[0].toLowerCase().replace(/\s+/g, ' ');
+
+    errors.push({
+      message: `"${match[0]}" may exclude or offend readers`,
+      context: getSurroundingText(text, match.index, match[0].length),
+      suggestions: terms[term] || [],
+      ruleId: INCLUSIVE_LANGUAGE_RULE,
+      word: match[0],
+      severity: 'warning',
+      category: 'style',
+      confidence: 0.9,
+      position: {
+        offset: match.index,
+        length: match[0].length
+      }
+    });
+  }
+
+  return errors;
+}
+
+function parseTermsFile(source: string, filePath: string): TermsFile {
+  let parsed: any;
+  try {
+    parsed = parseYaml(source) || {};
+  } catch (error) {
+    throw new Error(`${filePath}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+  }
+
+  const problems: string[] = [];
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) problems.push('expected a mapping');
+  if (parsed.terms !== undefined && (typeof parsed.terms !== 'object' || Array.isArray(parsed.terms))) {
+    problems.push('"terms" must map each term to its alternatives');
+  }
+  for (const key of ['allow', 'prefer']) {
+    if (parsed[key] !== undefined && !(Array.isArray(parsed[key]) && parsed[key].every((item: unknown) => typeof item === 'string'))) {
+      problems.push(`"${key}" must be a list of strings`);
+    }
+  }
+  if (parsed.variants !== undefined && !(Array.isArray(parsed.variants) && parsed.variants.every((group: unknown) => Array.isArray(group) && group.length > 1))) {
+    problems.push('"variants" must be a list of groups with at least two spellings each');
+  }
+  if (parsed.dialect !== undefined && !['us', 'uk'].includes(parsed.dialect)) {
+    problems.push('"dialect" must be "us" or "uk"');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid terms file ${filePath}: ${problems.join('; ')}`);
+  }
+  return parsed;
+}
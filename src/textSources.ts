@@ -0,0 +1,112 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+
+/**
+ * Where a piece of checked text comes from: the page body, or one of the
+ * places outside it that users still read
+ */
+export type TextSourceKind =
+  | 'body'
+  | 'title'
+  | 'meta-description'
+  | 'og-title'
+  | 'og-description'
+  | 'alt'
+  | 'title-attribute'
+  | 'aria-label'
+  | 'placeholder'
+  | 'button';
+
+/**
+ * How text from a source is checked
+ */
+export interface TextSourceProfile {
+  label: string;
+  // Rules that do not apply to this kind of text, e.g. fragment checks for button labels
+  disabledRules: string[];
+  // Whether the text is worth a LanguageTool request
+  languageTool: boolean;
+}
+
+/**
+ * Text found outside the page body, with the element it came from
+ */
+export interface TextSource {
+  kind: Exclude<TextSourceKind, 'body'>;
+  text: string;
+  element: Element;
+  // Attribute holding the text; unset when it is the element's own text
+  attribute?: string;
+  // Leading whitespace trimmed from the text
+  offset: number;
+}
+
+// Rules that expect full sentences
+const FRAGMENT_RULES = ['POSSIBLE_INCOMPLETE_SENTENCE', 'MISSING_END_PUNCTUATION', 'INCOMPLETE_TRANSITIVE_VERB', 'HANGING_PREPOSITION'];
+
+export const TEXT_SOURCE_PROFILES: Record<TextSourceKind, TextSourceProfile> = {
+  'body': { label: 'Page text', disabledRules: [], languageTool: true },
+  'title': { label: 'Page title', disabledRules: FRAGMENT_RULES, languageTool: true },
+  'meta-description': { label: 'Meta description', disabledRules: [], languageTool: true },
+  'og-title': { label: 'Open Graph title', disabledRules: FRAGMENT_RULES, languageTool: true },
+  'og-description': { label: 'Open Graph description', disabledRules: [], languageTool: true },
+  'alt': { label: 'Image alt text', disabledRules: FRAGMENT_RULES, languageTool: false },
+  'title-attribute': { label: 'Title attributes', disabledRules: FRAGMENT_RULES, languageTool: false },
+  'aria-label': { label: 'ARIA labels', disabledRules: FRAGMENT_RULES, languageTool: false },
+  'placeholder': { label: 'Form placeholders', disabledRules: FRAGMENT_RULES, languageTool: false },
+  'button': { label: 'Button labels', disabledRules: FRAGMENT_RULES, languageTool: false }
+};
+
+// Every kind except the page body, which is always checked
+export const TEXT_SOURCE_KINDS = (Object.keys(TEXT_SOURCE_PROFILES) as TextSourceKind[])
+  .filter((kind): kind is TextSource['kind'] => kind !== 'body');
+
+// Where each kind is found; kinds in the head ignore include selectors
+const SOURCE_QUERIES: Record<TextSource['kind'], { selector: string; attribute?: string; inHead?: boolean }> = {
+  'title': { selector: 'head > title', inHead: true },
+  'meta-description': { selector: 'meta[name="description" i]', attribute: 'content', inHead: true },
+  'og-title': { selector: 'meta[property="og:title"]', attribute: 'content', inHead: true },
+  'og-description': { selector: 'meta[property="og:description"]', attribute: 'content', inHead: true },
+  'alt': { selector: 'img[alt], area[alt], input[type="image"][alt]', attribute: 'alt' },
+  'title-attribute': { selector: 'body [title]', attribute: 'title' },
+  'aria-label': { selector: '[aria-label]', attribute: 'aria-label' },
+  'placeholder': { selector: 'input[placeholder], textarea[placeholder]', attribute: 'placeholder' },
+  'button': { selector: 'button, input[type="submit"][value], input[type="button"][value], input[type="reset"][value]' }
+};
+
+/**
+ * Collect the text of the given source kinds. Identical text of the same kind
+ * is collected once. Elements outside the include selectors or inside the
+ * exclude selectors are skipped, except for head metadata.
+ */
+export function collectTextSources(
+  $: cheerio.CheerioAPI,
+  kinds: TextSource['kind'][],
+  scope: { includeSelectors?: string[]; excludeSelectors?: string[] } = {}
+): TextSource[] {
+  const include = (scope.includeSelectors || []).join(', ');
+  const exclude = (scope.excludeSelectors || []).join(', ');
+  const sources: TextSource[] = [];
+  const seen = new Set<string>();
+
+  for (const kind of kinds) {
+    const query = SOURCE_QUERIES[kind];
+
+    ($(query.selector).toArray() as Element[]).forEach(el => {
+      if (!query.inHead) {
+        if (exclude && $(el).closest(exclude).length > 0) return;
+        if (include && $(el).closest(include).length === 0) return;
+      }
+
+      const attribute = query.attribute || (el.name === 'input' ? 'value' : undefined);
+      const raw = attribute ? $(el).attr(attribute) || '' : $(el).text();
+      const text = raw.trim();
+      if (!text || seen.has(`${kind}|${text}`)) return;
+
+      seen.add(`${kind}|${text}`);
+      sources.push({ kind, text, element: el, attribute, offset: raw.length - raw.trimStart().length });
+    });
+  }
+
+  return sources;
+}
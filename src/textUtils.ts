@@ -0,0 +1,71 @@
+/**
+ * Surrounding text for a match within its paragraph, expanded to whole words
+ * on either side and with whitespace collapsed
+ */
+export function getSurroundingText(text: string, offset: number, length: number, radius = 30): string {
+  const paragraphStart = text.lastIndexOf('\n', offset) + 1;
+  const paragraphEnd = text.indexOf('\n', offset + length);
+  let start = Math.max(paragraphStart, offset - radius);
+  let end = Math.min(paragraphEnd === -1 ? text.length : paragraphEnd, offset + length + radius);
+
+  while (start > paragraphStart && !/\s/.test(text[start - 1])) start--;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+
+  return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The sentence (or line) containing a match
+ */
+export function getSentenceAt(text: string, offset: number, length: number): string {
+  let start = offset;
+  while (start > 0 && !/[.!?\n]/.test(text[start - 1])) start--;
+
+  let end = offset + length;
+  while (end < text.length && !/[.!?\n]/.test(text[end])) end++;
+  if (end < text.length && text[end] !== '\n') end++;
+
+  return text.slice(start, end).trim();
+}
+
+// URLs, email addresses, domain and file names, and paths
+const ADDRESS_TOKEN = /^(?:https?:\/\/|ftp:\/\/|www\.)|^[^\s@]+@[^\s@]+\.[^\s@]+$|\w\.[a-z]{2,}\b|\w\/\w|^~?\.{0,2}\//i;
+
+/**
+ * Whether a token names a place rather than being prose, e.g. "github.com",
+ * "dev@example.com" or "src/index.ts"
+ */
+export function isAddressToken(token: string): boolean {
+  return ADDRESS_TOKEN.test(token);
+}
+
+/**
+ * Ranges of the whitespace-separated tokens in the text that are addresses,
+ * without the punctuation around them
+ */
+export function addressRanges(text: string): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  const tokenPattern = /\S+/g;
+
+  let token;
+  while ((token = tokenPattern.exec(text)) !== null) {
+    const leading = /^[("'“‘[<]*/.exec(token[0])![0].length;
+    const stripped = token[0].slice(leading).replace(/[)"'”’\],.;:!?>]+$/, '');
+    if (stripped && isAddressToken(stripped)) {
+      ranges.push({ start: token.index + leading, end: token.index + leading + stripped.length });
+    }
+  }
+
+  return ranges;
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Number of words in a piece of text
+ */
+export function countWords(text: string): number {
+  return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).length;
+}
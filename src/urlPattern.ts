@@ -0,0 +1,52 @@
+// Marks a pattern as a regular expression, e.g. "re:/blog/\d+/"
+const REGEX_PREFIX = 're:';
+
+/**
+ * Match a URL against a user-supplied pattern.
+ *
+ * Patterns starting with "re:" (e.g. "re:/blog/\d+/") are regular
+ * expressions, tested unanchored against the full URL. Anything else is a
+ * glob where "*" matches any run of characters. Globs starting with "/" are
+ * matched against the URL path only (e.g. "/legal/*" or "/de/"), all others
+ * against the full URL.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length)).test(url);
+  }
+
+  let target = url;
+  if (pattern.startsWith('/')) {
+    try {
+      target = new URL(url).pathname;
+    } catch {
+      // Not an absolute URL, match against it as given
+    }
+  }
+
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Check a URL against include and exclude pattern lists.
+ * An empty include list means every URL is included.
+ */
+export function isUrlAllowed(url: string, includePatterns: string[] = [], excludePatterns: string[] = []): boolean {
+  if (includePatterns.length > 0 && !includePatterns.some(pattern => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+
+  return !excludePatterns.some(pattern => matchesUrlPattern(url, pattern));
+}
+
+/**
+ * Convert a simple glob ("*" wildcards only) to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,129 @@
+import * as cheerio from 'cheerio';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import fetch from 'node-fetch';
+
+export interface SitemapOptions {
+  // Only return pages whose <lastmod> is on or after this date
+  since?: Date;
+}
+
+// Guard against sitemap indexes that (directly or indirectly) reference themselves
+const MAX_SITEMAP_NESTING = 5;
+
+/**
+ * Load every page URL listed in a sitemap or sitemap index.
+ * The location can be an http(s) URL, a file:// URL or a local path,
+ * and gzipped sitemaps are decompressed transparently.
+ */
+export async function loadSitemapUrls(location: string, options: SitemapOptions = {}): Promise<string[]> {
+  const urls = await collectSitemapUrls(location, options, 0);
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Load page URLs from a plain text or CSV file.
+ * Blank lines and lines starting with "#" are ignored. For CSV rows the
+ * first column containing an http(s) URL is used, so header rows drop out.
+ */
+export async function loadUrlList(filePath: string): Promise<string[]> {
+  const content = await fs.promises.readFile(filePath, 'utf8');
+  const urls: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const url = line
+      .split(/[,;\t]/)
+      .map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+      .find(cell => /^https?:\/\//i.test(cell));
+
+    if (url) urls.push(url);
+  }
+
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Parse a date given on the command line, rejecting anything unparseable
+ */
+export function parseSinceDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+async function collectSitemapUrls(location: string, options: SitemapOptions, depth: number): Promise<string[]> {
+  if (depth > MAX_SITEMAP_NESTING) {
+    throw new Error(`Sitemap index nesting is too deep at ${location}`);
+  }
+
+  const xml = await readSitemap(location);
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  // A sitemap index lists further sitemaps rather than pages
+  if ($('sitemapindex').length > 0) {
+    const urls: string[] = [];
+    for (const el of $('sitemapindex > sitemap').toArray()) {
+      const loc = $(el).children('loc').text().trim();
+      if (!loc) continue;
+      urls.push(...await collectSitemapUrls(resolveLocation(loc, location), options, depth + 1));
+    }
+    return urls;
+  }
+
+  const urls: string[] = [];
+  $('urlset > url').each((_, el) => {
+    const loc = $(el).children('loc').text().trim();
+    if (!loc) return;
+
+    const lastmod = $(el).children('lastmod').text().trim();
+    if (options.since && lastmod) {
+      const modified = new Date(lastmod);
+      // Entries without a usable lastmod are kept, since we can't tell if they changed
+      if (!isNaN(modified.getTime()) && modified < options.since) return;
+    }
+
+    urls.push(loc);
+  });
+
+  return urls;
+}
+
+/**
+ * Read a sitemap from the network or disk, gunzipping if needed
+ */
+async function readSitemap(location: string): Promise<string> {
+  let data: Buffer;
+
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sitemap ${location}: ${response.status} ${response.statusText}`);
+    }
+    data = await response.buffer();
+  } else {
+    const filePath = location.startsWith('file://') ? new URL(location) : location;
+    data = await fs.promises.readFile(filePath);
+  }
+
+  // Gzip magic number, regardless of file extension or content-type
+  if (data.length > 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    data = zlib.gunzipSync(data);
+  }
+
+  return data.toString('utf8');
+}
+
+/**
+ * Resolve a nested sitemap location relative to the sitemap index that referenced it
+ */
+function resolveLocation(loc: string, parent: string): string {
+  if (/^(https?|file):\/\//i.test(loc)) return loc;
+  if (/^(https?|file):\/\//i.test(parent)) return new URL(loc, parent).toString();
+  return path.resolve(path.dirname(parent), loc);
+}
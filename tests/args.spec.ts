@@ -0,0 +1,24 @@
+import { test, expect } from '@playwright/test';
+import { parseArgs } from '../src/args';
+
+test.describe('parseArgs', () => {
+  test('sets only the flags that were given', () => {
+    expect(parseArgs(['https://example.com', '-f', 'json', '--categories', 'spelling, style'])).toEqual({
+      url: 'https://example.com',
+      outputFormat: 'json',
+      categories: ['spelling', 'style']
+    });
+  });
+
+  test('rejects a flag without its value', () => {
+    expect(() => parseArgs(['https://example.com', '--output-format'])).toThrow('--output-format needs a value');
+    expect(() => parseArgs(['https://example.com', '--disable-rules'])).toThrow('--disable-rules needs a value');
+  });
+
+  test('rejects values outside the allowed set', () => {
+    expect(() => parseArgs(['https://example.com', '--output-format', 'pdf']))
+      .toThrow('--output-format must be one of console, json, html, markdown, sarif, junit; got "pdf"');
+    expect(() => parseArgs(['https://example.com', '--text-sources', 'title,footer']))
+      .toThrow(/--text-sources must be one of .*; got "footer"/);
+  });
+});
@@ -0,0 +1,30 @@
+import { test, expect, BrowserContext } from '@playwright/test';
+import * as path from 'path';
+import { runLoginScript } from '../src/auth';
+
+const loginScript = path.join(__dirname, 'fixtures', 'auth', 'login.js');
+
+// The login script only needs a tab to log in with
+const context = {
+  newPage: async () => ({ close: async () => {} })
+} as unknown as BrowserContext;
+
+test.describe('runLoginScript', () => {
+  test('treats credential variables and returned values as secrets', async () => {
+    const secrets = await runLoginScript(context, loginScript, {
+      BASE_URL: 'https://help.example.com',
+      CI: '1',
+      HELP_PASSWORD: 'correct-horse'
+    });
+
+    expect(secrets.sort()).toEqual(['correct-horse', 'one-time-483920']);
+  });
+
+  test('redacts credentials in the error of a failed login', async () => {
+    await expect(runLoginScript(context, loginScript, {
+      BASE_URL: 'https://help.example.com',
+      CI: '1',
+      HELP_PASSWORD: 'wrong-horse'
+    })).rejects.toThrow(/failed: Wrong password \[REDACTED\]$/);
+  });
+});
@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test';
+import { checkBrandTerms } from '../src/customDictionary';
+
+test.describe('checkBrandTerms', () => {
+  test('flags brand names written in the wrong case', () => {
+    const errors = checkBrandTerms('We host the code on Github and mirror it to github.', ['GitHub']);
+
+    expect(errors.map(error => error.word)).toEqual(['Github', 'github']);
+    expect(errors[0].replacements).toEqual([{ offset: 0, length: 6, text: 'GitHub' }]);
+  });
+
+  test('leaves domains, email addresses and paths alone', () => {
+    const text = 'Clone it from github.com/acme/app or mail dev@github.com, see (www.github.com) and docs/github/setup.md.';
+
+    expect(checkBrandTerms(text, ['GitHub'])).toEqual([]);
+  });
+
+  test('still checks a brand name that is itself dotted', () => {
+    const errors = checkBrandTerms('The server runs on node.js.', ['Node.js']);
+
+    expect(errors.map(error => error.word)).toEqual(['node.js']);
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractFromHtml } from '../src/extraction';
+
+const fixtures = path.join(__dirname, 'fixtures', 'extraction');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(fixtures, name), 'utf8');
+}
+
+const NAVIGATION = 'Home | Blog | About';
+const COPYRIGHT = 'Copyright 2024 Example Gardens. All rights reserved.';
+
+test.describe('extractFromHtml', () => {
+  test('readability keeps the article and drops page furniture', () => {
+    const result = extractFromHtml(fixture('article.html'), { strategy: 'readability', url: 'https://example.com/garden' });
+
+    expect(result.strategy).toBe('readability');
+    expect(result.text).toContain('Planning a Vegetable Garden');
+    expect(result.text).toContain('A vegetable garden starts with a plan.');
+    expect(result.text).toContain('Finally, start small.');
+    expect(result.text).not.toContain('Home');
+    expect(result.text).not.toContain('Copyright');
+    expect(result.text).not.toContain('console.log');
+    expect(result.droppedCharacters).toBe(NAVIGATION.length + COPYRIGHT.length);
+  });
+
+  test('selectors skips navigation, headers and footers', () => {
+    const result = extractFromHtml(fixture('article.html'), { strategy: 'selectors' });
+
+    expect(result.strategy).toBe('selectors');
+    expect(result.text.split('\n\n')).toEqual([
+      expect.stringMatching(/^A vegetable garden starts with a plan\./),
+      expect.stringMatching(/^Next, think about water\./),
+      expect.stringMatching(/^Finally, start small\./),
+      'Planning a Vegetable Garden'
+    ]);
+    expect(result.droppedCharacters).toBe(NAVIGATION.length + COPYRIGHT.length);
+  });
+
+  test('full keeps all visible text in document order', () => {
+    const result = extractFromHtml(fixture('article.html'), { strategy: 'full' });
+
+    expect(result.strategy).toBe('full');
+    const paragraphs = result.text.split('\n\n');
+    expect(paragraphs[0]).toBe(NAVIGATION);
+    expect(paragraphs[1]).toBe('Planning a Vegetable Garden');
+    expect(paragraphs[paragraphs.length - 1]).toBe(COPYRIGHT);
+    expect(result.text).not.toContain('display: flex');
+    expect(result.droppedCharacters).toBe(0);
+  });
+
+  test('defaults to the selectors strategy', () => {
+    expect(extractFromHtml(fixture('article.html')).strategy).toBe('selectors');
+  });
+
+  test('excluded selectors count towards the dropped characters', () => {
+    const result = extractFromHtml(fixture('article.html'), { strategy: 'full', excludeSelectors: ['footer'] });
+
+    expect(result.text).not.toContain('Copyright');
+    expect(result.droppedCharacters).toBe(COPYRIGHT.length);
+    expect(result.excludeSelectors).toEqual(['footer']);
+  });
+
+  test('full only keeps text inside the included selectors', () => {
+    const result = extractFromHtml(fixture('article.html'), { strategy: 'full', includeSelectors: ['article p'] });
+
+    expect(result.text.split('\n\n')).toHaveLength(3);
+    expect(result.text).not.toContain('Planning a Vegetable Garden');
+    expect(result.droppedCharacters).toBe(NAVIGATION.length + 'Planning a Vegetable Garden'.length + COPYRIGHT.length);
+  });
+
+  for (const strategy of ['readability', 'selectors', 'full'] as const) {
+    test(`${strategy} extracts paragraphs inside list items once`, () => {
+      const result = extractFromHtml(fixture('lists.html'), { strategy });
+      const paragraphs = result.text.split('\n\n');
+
+      for (const item of ['Check the weather forecast for frost.', 'Soak the seeds overnight.', 'Label each row as you plant it.', 'Water the bed the evening before.']) {
+        expect(paragraphs.filter(paragraph => paragraph === item)).toHaveLength(1);
+      }
+      expect(result.text.split('Soak the seeds').length - 1).toBe(1);
+    });
+  }
+
+  test('maps paragraphs in list items to their own elements', () => {
+    const result = extractFromHtml(fixture('lists.html'), { strategy: 'selectors' });
+    const start = result.text.indexOf('Label each row');
+    const segment = result.segments.find(candidate => candidate.start === start);
+
+    expect(segment).toMatchObject({ tag: 'p', selector: 'html > body > ul > li:nth-of-type(2) > p:nth-of-type(2)' });
+  });
+
+  test('selectors leaves out buttons but keeps text-only divs', () => {
+    const result = extractFromHtml(fixture('lists.html'), { strategy: 'selectors' });
+
+    expect(result.text).toContain('This note sits in a div without any paragraph markup.');
+    expect(result.text).not.toContain('Subscribe now');
+    expect(result.droppedCharacters).toBe('Subscribe now'.length);
+  });
+});
@@ -0,0 +1,6 @@
+// Reads a credential, a URL and a CI flag, and hands back a value it made up
+module.exports = async function (page, { env }) {
+  if (!env.BASE_URL || !env.CI) throw new Error('BASE_URL and CI must be set');
+  if (env.HELP_PASSWORD !== 'correct-horse') throw new Error(`Wrong password ${env.HELP_PASSWORD}`);
+  return ['one-time-483920'];
+};
@@ -0,0 +1,6 @@
+module.exports = async function (page, { url }) {
+  if (!url.endsWith('index.html')) throw new Error(`Unexpected URL ${url}`);
+
+  await page.click('#tab-pricing');
+  await page.waitForSelector('#pricing-text');
+};
@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import { GrammarChecker } from '../src/grammarChecker';
+import { INCONSISTENT_VARIANT_RULE } from '../src/consistency';
+import { INCLUSIVE_LANGUAGE_RULE } from '../src/termLists';
+
+test.describe('GrammarChecker term lists', () => {
+  test('German words spelt like American variants are not variant usages', async () => {
+    // The German dictionary is what makes German paragraphs checkable
+    const checker = new GrammarChecker();
+    const text = 'Das Labor im Center zeigt Humor und Theater.\n\nThe labour of the theatre crew paid off.';
+    const result = await checker.checkPlainText(text, 'file:///mixed.md', {
+      paragraphs: [{ start: 0, end: 44, lang: 'de' }, { start: 46, end: text.length }]
+    });
+
+    expect(result.variantUsages!.map(usage => usage.word)).toEqual(['labour', 'theatre']);
+    expect(result.errors.filter(error => error.ruleId === INCONSISTENT_VARIANT_RULE)).toEqual([]);
+  });
+
+  test('banned English terms are not looked for in French text', async () => {
+    const checker = new GrammarChecker({ language: 'fr', checkSpelling: false });
+    const result = await checker.checkPlainText('La lame est tranchante.', 'file:///fr.md');
+
+    expect(result.errors.filter(error => error.ruleId === INCLUSIVE_LANGUAGE_RULE)).toEqual([]);
+  });
+
+  test('banned terms are still flagged in English text', async () => {
+    const checker = new GrammarChecker({ checkSpelling: false });
+    const result = await checker.checkPlainText('The ending was lame.', 'file:///en.md');
+
+    expect(result.errors.filter(error => error.ruleId === INCLUSIVE_LANGUAGE_RULE)).toHaveLength(1);
+  });
+});
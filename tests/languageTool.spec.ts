@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LanguageToolClient } from '../src/languageTool';
+
+interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * A local stand-in for a LanguageTool server. It records each /v2/check form
+ * and answers with the next queued response, or by flagging every "teh".
+ */
+class StubServer {
+  requests: URLSearchParams[] = [];
+  responses: StubResponse[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/v2/check') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const form = new URLSearchParams(body);
+      this.requests.push(form);
+
+      const queued = this.responses.shift();
+      res.writeHead(queued?.status ?? 200, { 'Content-Type': 'application/json', ...queued?.headers });
+      res.end(JSON.stringify(queued?.body ?? { matches: typoMatches(form.get('text') || '') }));
+    });
+  }
+}
+
+function typoMatches(text: string) {
+  return [...text.matchAll(/\bteh\b/g)].map(match => ({
+    message: 'Possible spelling mistake found.',
+    shortMessage: 'Spelling mistake',
+    offset: match.index!,
+    length: 3,
+    replacements: [{ value: 'the' }, { value: 'ten' }, { value: 'tea' }],
+    context: { text, offset: match.index!, length: 3 },
+    rule: {
+      id: 'MORFOLOGIK_RULE_EN_US',
+      description: 'Possible spelling mistake',
+      category: { id: 'TYPOS' },
+      issueType: 'misspelling'
+    }
+  }));
+}
+
+test.describe('LanguageToolClient', () => {
+  let server: StubServer;
+  let baseUrl: string;
+
+  test.beforeEach(async () => {
+    server = new StubServer();
+    baseUrl = await server.start();
+  });
+
+  test.afterEach(async () => {
+    await server.stop();
+  });
+
+  test('maps matches to findings', async () => {
+    const client = new LanguageToolClient({ baseUrl, maxSuggestions: 2 });
+    const errors = await client.check('Read teh manual.');
+
+    expect(errors).toEqual([{
+      message: 'Possible spelling mistake found.',
+      context: 'Read teh manual.',
+      suggestions: ['the', 'ten'],
+      ruleId: 'MORFOLOGIK_RULE_EN_US',
+      severity: 'error',
+      category: 'spelling',
+      confidence: 0.8,
+      position: { offset: 5, length: 3 }
+    }]);
+  });
+
+  test('sends the language, mother tongue and disabled rules', async () => {
+    const client = new LanguageToolClient({
+      baseUrl,
+      language: 'en-GB',
+      motherTongue: 'de-DE',
+      disabledRules: ['WHITESPACE_RULE', 'EN_QUOTES']
+    });
+    await client.check('Some text.');
+
+    expect(server.requests).toHaveLength(1);
+    const form = server.requests[0];
+    expect(form.get('text')).toBe('Some text.');
+    expect(form.get('language')).toBe('en-GB');
+    expect(form.get('motherTongue')).toBe('de-DE');
+    expect(form.get('disabledRules')).toBe('WHITESPACE_RULE,EN_QUOTES');
+  });
+
+  test('leaves out optional parameters that are not set', async () => {
+    await new LanguageToolClient({ baseUrl }).check('Some text.');
+
+    const form = server.requests[0];
+    expect(form.get('language')).toBe('en-US');
+    expect(form.has('motherTongue')).toBe(false);
+    expect(form.has('disabledRules')).toBe(false);
+  });
+
+  test('maps offsets in later chunks back to the full text', async () => {
+    const text = 'First paragraph with teh typo.\n\nSecond paragraph with teh typo too.';
+    const client = new LanguageToolClient({ baseUrl, maxChunkSize: 40 });
+    const errors = await client.check(text);
+
+    expect(server.requests.map(form => form.get('text'))).toEqual([
+      'First paragraph with teh typo.',
+      '\n\nSecond paragraph with teh typo too.'
+    ]);
+    expect(errors.map(error => error.position.offset)).toEqual([
+      text.indexOf('teh'),
+      text.lastIndexOf('teh')
+    ]);
+    for (const error of errors) {
+      expect(text.substr(error.position.offset, error.position.length)).toBe('teh');
+    }
+  });
+
+  test('retries a rate-limited request after Retry-After', async () => {
+    server.responses.push({ status: 429, headers: { 'Retry-After': '0' }, body: {} });
+    const client = new LanguageToolClient({ baseUrl });
+
+    const started = Date.now();
+    const errors = await client.check('Read teh manual.');
+
+    expect(server.requests).toHaveLength(2);
+    expect(errors).toHaveLength(1);
+    // A Retry-After of zero replaces the one-second default backoff
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  test('gives up once the retries are used up', async () => {
+    server.responses.push(
+      { status: 503, headers: { 'Retry-After': '0' }, body: {} },
+      { status: 503, headers: { 'Retry-After': '0' }, body: {} }
+    );
+    const client = new LanguageToolClient({ baseUrl, maxRetries: 1 });
+
+    await expect(client.check('Some text.')).rejects.toThrow('LanguageTool request failed: 503');
+    expect(server.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect, Page } from '@playwright/test';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { PageLoader } from '../src/pageLoader';
+import { GrammarChecker } from '../src/grammarChecker';
+
+const fixtures = path.join(__dirname, 'fixtures', 'spa');
+const url = pathToFileURL(path.join(fixtures, 'index.html')).toString();
+const interactionScript = path.join(fixtures, 'openPricingTab.js');
+
+async function pageText(page: Page, options: ConstructorParameters<typeof GrammarChecker>[0] = {}): Promise<string> {
+  return new GrammarChecker({ extractionStrategy: 'full', ...options }).extractText(page);
+}
+
+test.describe('PageLoader', () => {
+  test('checks the page as soon as the configured event fires', async ({ page }) => {
+    await new PageLoader({ waitUntil: 'domcontentloaded' }).load(page, url);
+
+    const text = await pageText(page);
+    expect(text).toContain('Loading the latest article.');
+    expect(text).not.toContain('Spring is the best time');
+  });
+
+  test('waits for a selector', async ({ page }) => {
+    await new PageLoader({ waitUntil: 'domcontentloaded', waitForSelector: '[data-loaded]' }).load(page, url);
+
+    const text = await pageText(page);
+    expect(text).toContain('Spring is the best time to plant tomatoes and peppers.');
+    expect(text).not.toContain('Loading the latest article.');
+  });
+
+  test('waits for a function', async ({ page }) => {
+    await new PageLoader({ waitUntil: 'domcontentloaded', waitForFunction: 'window.appReady === true' }).load(page, url);
+
+    expect(await pageText(page)).toContain('Every order ships with a planting guide.');
+  });
+
+  test('opens details elements', async ({ page }) => {
+    await new PageLoader({ expandDetails: true }).load(page, url);
+
+    expect(await page.locator('details').getAttribute('open')).toBe('');
+    const text = await pageText(page, { skipHidden: true });
+    expect(text).toContain('Returns are accepted within thirty days of delivery.');
+  });
+
+  test('runs the interaction script', async ({ page }) => {
+    const loader = new PageLoader({ interactionScript });
+    await loader.ready();
+    await loader.load(page, url);
+
+    expect(await pageText(page)).toContain('A starter kit costs twenty dollars.');
+  });
+
+  test('fails before any page is opened when the interaction script is missing', async () => {
+    const loader = new PageLoader({ interactionScript: path.join(fixtures, 'missing.js') });
+
+    await expect(loader.ready()).rejects.toThrow('Could not load interaction script');
+  });
+
+  test('rejects an unknown waitUntil', () => {
+    expect(() => new PageLoader({ waitUntil: 'idle' as any })).toThrow('Unknown waitUntil "idle"');
+  });
+});
+
+test.describe('hidden text', () => {
+  test.beforeEach(async ({ page }) => {
+    await new PageLoader({ interactionScript }).load(page, url);
+  });
+
+  test('is checked and marked hidden by default', async ({ page }) => {
+    const checker = new GrammarChecker({ extractionStrategy: 'full' });
+    const content = await checker.extractContent(page);
+
+    const start = content.text.indexOf('Shipping is free');
+    expect(start).toBeGreaterThan(-1);
+    expect(content.segments.find(segment => segment.start === start)?.hidden).toBe(true);
+
+    const shown = content.text.indexOf('A starter kit costs');
+    expect(content.segments.find(segment => segment.start === shown)?.hidden).toBeUndefined();
+  });
+
+  test('is left out with skipHidden', async ({ page }) => {
+    const text = await pageText(page, { skipHidden: true });
+
+    expect(text).toContain('A starter kit costs twenty dollars.');
+    expect(text).not.toContain('Shipping is free');
+    expect(text).not.toContain('Our raised beds are made from untreated cedar.');
+    expect(text).not.toContain('Returns are accepted');
+  });
+
+  test('marks are removed from the live page after extraction', async ({ page }) => {
+    await pageText(page);
+
+    expect(await page.locator('[data-gc-hidden]').count()).toBe(0);
+  });
+});
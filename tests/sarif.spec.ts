@@ -0,0 +1,21 @@
+import { test, expect } from '@playwright/test';
+import { GrammarChecker } from '../src/grammarChecker';
+import { toSarifLog } from '../src/sarif';
+
+const HTML = `<html lang="en"><head><title>Recieve our updates</title></head>
+<body><main><p>We will recieve your order today.</p></main></body></html>`;
+
+test.describe('toSarifLog', () => {
+  test('gives body findings a region and other findings only their element', async () => {
+    const checker = new GrammarChecker({ checkStyle: false });
+    const page = await checker.checkHtml(HTML, 'https://example.com/');
+    const results = toSarifLog([page]).runs[0].results as any[];
+
+    const body = results.find(result => result.properties.source === 'Page text');
+    expect(body.locations[0].physicalLocation.region).toMatchObject({ charOffset: 8, charLength: 7 });
+
+    const title = results.find(result => result.properties.source !== 'Page text');
+    expect(title.locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'https://example.com/' } });
+    expect(title.locations[0].logicalLocations).toEqual([{ fullyQualifiedName: 'html > head > title', kind: 'element' }]);
+  });
+});
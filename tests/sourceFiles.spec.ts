@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GrammarChecker } from '../src/grammarChecker';
+import { extractMarkdownProse, fixSourceFile } from '../src/sourceFiles';
+
+const README = [
+  '# Setup',
+  '',
+  'Clone the code from Github at github.com/acme/app, or mail dev@github.com.',
+  'Settings live in config/github.yml and ~/.github.',
+  ''
+].join('\n');
+
+test.describe('Markdown source files', () => {
+  test('leave domains, email addresses and paths out of the prose', () => {
+    const prose = extractMarkdownProse(README);
+
+    expect(prose.text).toContain('Clone the code from Github at');
+    expect(prose.text).not.toContain('github.com');
+    expect(prose.text).not.toContain('github.yml');
+    expect(prose.text).not.toContain('.github');
+  });
+
+  test('--fix rewrites the prose and not the addresses next to it', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'grammar-fix-'));
+    const file = path.join(dir, 'README.md');
+    await fs.promises.writeFile(file, README, 'utf8');
+
+    try {
+      const checker = new GrammarChecker({ brandTerms: ['GitHub'], checkSpelling: false, checkStyle: false });
+      const { result } = await fixSourceFile(checker, file, false, dir);
+
+      expect(result.fixes!.applied.map(fix => fix.ruleId)).toEqual(['BRAND_CASING']);
+      expect(await fs.promises.readFile(file, 'utf8')).toBe(README.replace('from Github', 'from GitHub'));
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test';
+import { isUrlAllowed, matchesUrlPattern } from '../src/urlPattern';
+
+test.describe('matchesUrlPattern', () => {
+  test('matches a path glob ending in a slash against the path only', () => {
+    expect(matchesUrlPattern('https://example.com/de/', '/de/')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/de/preise', '/de/')).toBe(false);
+    expect(matchesUrlPattern('https://example.com/docs/design', '/de/')).toBe(false);
+    expect(matchesUrlPattern('https://example.com/blog/', '/blog/')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/en/blog/post', '/blog/')).toBe(false);
+  });
+
+  test('matches a path glob with a wildcard below the path', () => {
+    expect(matchesUrlPattern('https://example.com/de/preise', '/de/*')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/en/de/', '/de/*')).toBe(false);
+  });
+
+  test('matches other globs against the full URL', () => {
+    expect(matchesUrlPattern('https://docs.example.com/start', 'https://docs.example.com/*')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/start', 'https://docs.example.com/*')).toBe(false);
+  });
+
+  test('treats re: patterns as unanchored regular expressions', () => {
+    expect(matchesUrlPattern('https://example.com/api/v2/users', 're:/v\\d+/')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/api/users', 're:/v\\d+/')).toBe(false);
+  });
+});
+
+test.describe('isUrlAllowed', () => {
+  test('applies include patterns, then exclude patterns', () => {
+    const include = ['/docs/*'];
+    const exclude = ['/docs/archive/*'];
+
+    expect(isUrlAllowed('https://example.com/docs/start', include, exclude)).toBe(true);
+    expect(isUrlAllowed('https://example.com/docs/archive/2019', include, exclude)).toBe(false);
+    expect(isUrlAllowed('https://example.com/blog/post', include, exclude)).toBe(false);
+  });
+});
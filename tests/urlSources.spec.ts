@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { loadSitemapUrls, parseSinceDate } from '../src/urlSources';
+
+const fixtures = path.join(__dirname, 'fixtures', 'sitemaps');
+
+test.describe('loadSitemapUrls', () => {
+  test('lists every page of a urlset once', async () => {
+    const urls = await loadSitemapUrls(path.join(fixtures, 'urlset.xml'));
+
+    expect(urls).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/contact'
+    ]);
+  });
+
+  test('reads gzipped sitemaps', async () => {
+    const urls = await loadSitemapUrls(path.join(fixtures, 'blog.xml.gz'));
+
+    expect(urls).toEqual([
+      'https://example.com/blog/launch',
+      'https://example.com/blog/archive'
+    ]);
+  });
+
+  test('follows a sitemap index to sitemaps next to it', async () => {
+    const urls = await loadSitemapUrls(pathToFileURL(path.join(fixtures, 'index.xml')).toString());
+
+    expect(urls).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/contact',
+      'https://example.com/blog/launch',
+      'https://example.com/blog/archive'
+    ]);
+  });
+
+  test('leaves out pages last modified before the since date', async () => {
+    const urls = await loadSitemapUrls(path.join(fixtures, 'index.xml'), { since: parseSinceDate('2024-01-01') });
+
+    // The contact page has no <lastmod>, so it can't be ruled out
+    expect(urls).toEqual([
+      'https://example.com/',
+      'https://example.com/contact',
+      'https://example.com/blog/launch'
+    ]);
+  });
+
+  test('rejects an unparseable since date', () => {
+    expect(() => parseSinceDate('last week')).toThrow('Invalid date: last week');
+  });
+});
@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import verbNounForm from '../src/rules/builtin/verbNounForm';
+import { RuleContext } from '../src/rules/types';
+
+// The rule reads only the text
+const context = {} as RuleContext;
+
+function flagged(text: string): string[] {
+  return verbNounForm.check(text, context).map(finding => `${finding.word} -> ${finding.suggestions[0]}`);
+}
+
+test.describe('VERB_NOUN_FORM', () => {
+  test('flags nouns used as verbs and verbs used as nouns', () => {
+    expect(flagged('You can setup the app in a minute.')).toEqual(['setup -> set up']);
+    expect(flagged('Open the log in page and finish your set up.')).toEqual(['log in -> login', 'set up -> setup']);
+    expect(flagged('Fill in the sign up form.')).toEqual(['sign up -> signup']);
+  });
+
+  test('leaves phrasal verbs after relative pronouns alone', () => {
+    expect(flagged('Users that sign up get a free month.')).toEqual([]);
+    expect(flagged('Teams that set up billing keep their data.')).toEqual([]);
+  });
+
+  test('leaves phrasal verbs with an object alone', () => {
+    expect(flagged('Back up code regularly.')).toEqual([]);
+    expect(flagged('Set up options in the dashboard.')).toEqual([]);
+    expect(flagged('Check out files before editing them.')).toEqual([]);
+    expect(flagged('Set up email forwarding for the team.')).toEqual([]);
+  });
+
+  test('leaves "to" followed by a noun alone', () => {
+    expect(flagged('Proceed to checkout.')).toEqual([]);
+    expect(flagged('Go to setup and pick a plan.')).toEqual([]);
+  });
+});